@@ -0,0 +1,44 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { EXPORT_FILE_TYPES, EXPORT_FORMATS, exportBuild, exportItems, isExportFormat } from "@/lib/build-export"
+import { getBuildRepository } from "@/lib/builds"
+import { sharedBuildSchema } from "@/lib/builds/schema"
+
+// A shared build as a formatted parts list: GET /api/builds/export?id=<id>&format=markdown
+export async function GET(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams
+  const buildId = searchParams.get("id")
+  const format = searchParams.get("format") || "text"
+  // Serve as a file download instead of showing it in the browser
+  const download = searchParams.get("download") === "1"
+
+  if (!isExportFormat(format)) {
+    return NextResponse.json({ error: `Format must be one of: ${EXPORT_FORMATS.join(", ")}` }, { status: 400 })
+  }
+
+  try {
+    const build = buildId ? await getBuildRepository().get(buildId) : null
+    if (!build) {
+      return NextResponse.json({ error: "Build not found" }, { status: 404 })
+    }
+
+    // Normalizes builds stored before categories held lists
+    const parsed = sharedBuildSchema.safeParse(build.data)
+    if (!parsed.success) {
+      return NextResponse.json({ error: "Stored build is malformed" }, { status: 500 })
+    }
+
+    const link = `${request.nextUrl.origin}/build?build=${build.id}`
+    const body = exportBuild(exportItems(parsed.data), format, { link })
+    const { contentType, extension } = EXPORT_FILE_TYPES[format]
+
+    return new NextResponse(body, {
+      headers: {
+        "Content-Type": contentType,
+        ...(download && { "Content-Disposition": `attachment; filename="build-${build.id}.${extension}"` }),
+      },
+    })
+  } catch (error) {
+    console.error("Error exporting build:", error)
+    return NextResponse.json({ error: "Failed to export build" }, { status: 500 })
+  }
+}
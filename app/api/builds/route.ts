@@ -1,44 +1,53 @@
 import { type NextRequest, NextResponse } from "next/server"
-import crypto from "crypto"
+import { getBuildRepository } from "@/lib/builds"
+import { formatIssues, MAX_SHARED_BUILD_BYTES, sharedBuildSchema } from "@/lib/builds/schema"
+import { getRetailer } from "@/lib/retailers"
 
-// In-memory storage for builds (in a production app, you'd use a database)
-const buildStore: Record<string, any> = {}
-
-// Function to generate a short, unique ID
-function generateShortId(): string {
-  // Generate 6 random bytes and convert to a base64 string
-  return crypto.randomBytes(6).toString("base64url")
-}
+// Components must come from a shop we scrape, and link to that shop
+const storableBuildSchema = sharedBuildSchema.superRefine((build, ctx) => {
+  Object.entries(build).forEach(([type, items]) => {
+    items?.forEach((item, index) => {
+      const retailer = getRetailer(item.source)
+      if (!retailer) {
+        ctx.addIssue({ code: "custom", path: [type, index, "source"], message: `Unknown retailer "${item.source}"` })
+        return
+      }
 
-// Clean up old builds periodically (every 24 hours)
-// In a real app, you'd use a proper cleanup mechanism
-const EXPIRY_TIME = 30 * 24 * 60 * 60 * 1000 // 30 days in milliseconds
-setInterval(
-  () => {
-    const now = Date.now()
-    Object.entries(buildStore).forEach(([id, build]) => {
-      if (now - build.timestamp > EXPIRY_TIME) {
-        delete buildStore[id]
+      const host = new URL(item.url).hostname.replace(/^www\./, "")
+      if (host !== retailer.host.replace(/^www\./, "")) {
+        ctx.addIssue({ code: "custom", path: [type, index, "url"], message: `Link does not point to ${retailer.name}` })
       }
     })
-  },
-  24 * 60 * 60 * 1000,
-) // Run once per day
+  })
+})
 
 export async function POST(request: NextRequest) {
   try {
-    const data = await request.json()
+    const body = await request.text()
 
-    // Generate a unique ID for this build
-    const buildId = generateShortId()
+    if (new TextEncoder().encode(body).length > MAX_SHARED_BUILD_BYTES) {
+      return NextResponse.json(
+        { error: `Build is larger than ${MAX_SHARED_BUILD_BYTES / 1024} KB`, issues: [] },
+        { status: 413 },
+      )
+    }
 
-    // Store the build data with a timestamp
-    buildStore[buildId] = {
-      data,
-      timestamp: Date.now(),
+    let json: unknown
+    try {
+      json = JSON.parse(body)
+    } catch {
+      return NextResponse.json({ error: "Request body is not valid JSON", issues: [] }, { status: 400 })
     }
 
-    return NextResponse.json({ buildId })
+    const parsed = storableBuildSchema.safeParse(json)
+    if (!parsed.success) {
+      return NextResponse.json({ error: "Invalid build", issues: formatIssues(parsed.error) }, { status: 400 })
+    }
+
+    // Store the build and hand back its short ID
+    const build = await getBuildRepository().create(parsed.data)
+
+    return NextResponse.json({ buildId: build.id })
   } catch (error) {
     console.error("Error storing build:", error)
     return NextResponse.json({ error: "Failed to store build" }, { status: 500 })
@@ -48,12 +57,13 @@ export async function POST(request: NextRequest) {
 export async function GET(request: NextRequest) {
   try {
     const buildId = request.nextUrl.searchParams.get("id")
+    const build = buildId ? await getBuildRepository().get(buildId) : null
 
-    if (!buildId || !buildStore[buildId]) {
+    if (!build) {
       return NextResponse.json({ error: "Build not found" }, { status: 404 })
     }
 
-    return NextResponse.json({ build: buildStore[buildId].data })
+    return NextResponse.json({ build: build.data, createdAt: build.createdAt })
   } catch (error) {
     console.error("Error retrieving build:", error)
     return NextResponse.json({ error: "Failed to retrieve build" }, { status: 500 })
@@ -0,0 +1,38 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { fetchProductDetail, retailerForUrl } from "@/lib/retailers"
+
+// Full details of one listing from its product page: GET /api/product-detail?url=<product url>
+export async function GET(request: NextRequest) {
+  const url = request.nextUrl.searchParams.get("url")
+
+  if (!url) {
+    return NextResponse.json({ error: "URL parameter is required" }, { status: 400 })
+  }
+
+  // Only fetch pages of the shops we scrape, never an arbitrary site
+  const retailer = retailerForUrl(url)
+  if (!retailer) {
+    return NextResponse.json({ error: "URL is not a product page of a supported retailer" }, { status: 400 })
+  }
+
+  try {
+    const { detail, report } = await fetchProductDetail(retailer, url)
+    if (!detail) {
+      return NextResponse.json(
+        { error: `Failed to read product page from ${retailer.name}`, retailer: report },
+        { status: 502 },
+      )
+    }
+
+    return NextResponse.json({ detail, retailer: report, cachedAt: report.cachedAt })
+  } catch (error) {
+    console.error("Error fetching product detail:", error)
+    return NextResponse.json(
+      {
+        error: "Failed to fetch product detail",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 },
+    )
+  }
+}
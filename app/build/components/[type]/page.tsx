@@ -1,6 +1,6 @@
 "use client"
 
-import { useState, useEffect } from "react"
+import { useState, useEffect, useRef } from "react"
 import { useParams, useRouter } from "next/navigation"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
@@ -10,12 +10,22 @@ import { Filter, Check, Search, Loader2, RefreshCw, ArrowLeft } from "lucide-rea
 import { Badge } from "@/components/ui/badge"
 import { SiteHeader } from "@/components/site-header"
 import { AttentionBanner } from "@/components/attention-banner"
+import { AvailabilityBadge } from "@/components/availability-badge"
+import { ProductDetails } from "@/components/product-details"
+import { RetailerStatusBar } from "@/components/retailer-status"
+import { useProductDetail } from "@/hooks/use-product-detail"
+import { AVAILABILITY_LABELS, type Availability } from "@/lib/availability"
+import { addItem, loadBuild, replaceItem, saveBuild } from "@/lib/build"
+import { readNdjson } from "@/lib/ndjson"
+import { estimatePower, parsePsuWatts } from "@/lib/power"
+import { formatAmount, formatPrice, type Price } from "@/lib/price"
+import type { RetailerReport, RetailerStreamLine } from "@/lib/retailers/types"
 
 interface Component {
   name: string
-  price: string
+  price: Price
   image: string
-  availability: string
+  availability: Availability
   source: string
   url: string
   specs?: Record<string, string>
@@ -36,24 +46,26 @@ const componentTypeNames: Record<string, string> = {
 }
 
 // Function to handle price display
-const renderPrice = (price: string) => {
-  // Check if price contains multiple prices (e.g., "৳ 12,500 ৳ 13,000")
-  if (price.includes("৳") && price.split("৳").length > 2) {
-    const prices = price.split("৳").filter((p) => p.trim())
-
-    // If we have at least two prices
-    if (prices.length >= 2) {
-      return (
-        <div>
-          <p className="text-lg font-bold">৳{prices[0].trim()}</p>
-          <p className="text-sm text-muted-foreground line-through">৳{prices[1].trim()}</p>
-        </div>
-      )
-    }
+const renderPrice = (price: Price) => {
+  // Show the struck-through regular price next to a discounted one
+  if (price.current !== null && price.regular !== null) {
+    return (
+      <div>
+        <p className="text-lg font-bold">{formatAmount(price.current)}</p>
+        <p className="text-sm text-muted-foreground line-through">{formatAmount(price.regular)}</p>
+      </div>
+    )
   }
 
   // Regular price display
-  return <p className="text-lg font-bold">{price}</p>
+  return <p className="text-lg font-bold">{formatPrice(price)}</p>
+}
+
+// Listings without an amount sort after everything that has one
+const comparePrices = (a: Component, b: Component, order: "price-asc" | "price-desc") => {
+  if (a.price.current === null) return b.price.current === null ? 0 : 1
+  if (b.price.current === null) return -1
+  return order === "price-asc" ? a.price.current - b.price.current : b.price.current - a.price.current
 }
 
 // Extract the component card to a separate function to avoid code duplication
@@ -66,6 +78,10 @@ const ComponentCard = ({
   displayName: string
   onSelect: (component: Component) => void
 }) => {
+  // Full specs come from the product page, so they're only fetched when asked for
+  const [showDetails, setShowDetails] = useState(false)
+  const { status, detail } = useProductDetail(component.url, showDetails)
+
   return (
     <div
       className="bg-background border rounded-lg overflow-hidden hover:shadow-md transition-shadow cursor-pointer"
@@ -77,9 +93,10 @@ const ComponentCard = ({
         ) : (
           <div className="flex items-center justify-center h-full text-muted-foreground">No image</div>
         )}
-        {component.availability === "In Stock" && (
-          <div className="absolute top-2 right-2 bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-100 text-xs px-1.5 py-0.5 rounded">
-            In Stock
+        <AvailabilityBadge availability={component.availability} className="absolute top-2 right-2 px-1.5 py-0.5" />
+        {component.price.discountPercent !== null && (
+          <div className="absolute bottom-2 left-2 bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-100 text-xs px-1.5 py-0.5 rounded">
+            -{component.price.discountPercent}%
           </div>
         )}
         <div className="absolute top-2 left-2">
@@ -129,6 +146,24 @@ const ComponentCard = ({
           </div>
         )}
 
+        <button
+          type="button"
+          className="text-xs text-primary hover:underline mb-2"
+          onClick={(e) => {
+            e.stopPropagation()
+            setShowDetails(!showDetails)
+          }}
+        >
+          {showDetails ? "Hide full specs" : "Show full specs"}
+        </button>
+        {showDetails && (
+          <div className="mb-3 cursor-auto" onClick={(e) => e.stopPropagation()}>
+            {status === "loading" && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+            {status === "error" && <p className="text-xs text-muted-foreground">Couldn&apos;t load the product page.</p>}
+            {detail && <ProductDetails detail={detail} />}
+          </div>
+        )}
+
         {renderPrice(component.price)}
 
         <Button className="w-full mt-2">Select {displayName}</Button>
@@ -150,29 +185,51 @@ export default function ComponentSelectionPage() {
   const [error, setError] = useState("")
   const [searchQuery, setSearchQuery] = useState("")
   const [selectedSource, setSelectedSource] = useState<string | null>(null)
-  const [selectedAvailability, setSelectedAvailability] = useState<string | null>(null)
+  const [selectedAvailability, setSelectedAvailability] = useState<Availability | null>(null)
   const [availableSources, setAvailableSources] = useState<string[]>([])
+  const [retailerReports, setRetailerReports] = useState<Record<string, RetailerReport>>({})
+  const [sortOrder, setSortOrder] = useState<"relevance" | "price-asc" | "price-desc">("relevance")
+  // Recommended wattage for the saved build, offered as a filter when picking a power supply
+  const [recommendedPsuWatts, setRecommendedPsuWatts] = useState<number | null>(null)
+  const [adequatePsuOnly, setAdequatePsuOnly] = useState(false)
+
+  // The results stream in progress; a new search or category cancels it so its batches can't mix into the new results
+  const streamController = useRef<AbortController | null>(null)
 
   // Initial data fetch
   useEffect(() => {
     fetchComponents()
   }, [type])
 
+  useEffect(() => () => streamController.current?.abort(), [])
+
+  useEffect(() => {
+    if (type !== "power-supply") return
+
+    const { loadWatts, recommendedWatts } = estimatePower(loadBuild())
+    if (loadWatts > 0) setRecommendedPsuWatts(recommendedWatts)
+  }, [type])
+
   // Function to fetch components with optional search query
   const fetchComponents = async (query?: string) => {
+    streamController.current?.abort()
+    const controller = new AbortController()
+    streamController.current = controller
+
     try {
       setLoading(true)
       setError("")
+      setComponents([])
+      setAvailableSources([])
+      setRetailerReports({})
 
-      let url = `/api/components?type=${type}`
+      let url = `/api/components?type=${type}&stream=1`
       if (query) {
         url += `&search=${encodeURIComponent(query)}`
       }
 
-      // Increase timeout to 60 seconds for complex searches
-      const response = await fetch(url, {
-        signal: AbortSignal.timeout(60000), // Increase timeout to 60 seconds
-      }).catch((error) => {
+      const response = await fetch(url, { signal: controller.signal }).catch((error) => {
+        if (controller.signal.aborted) throw error
         console.error("Error fetching components:", error)
         throw new Error("Network error while fetching components. Please try again.")
       })
@@ -181,23 +238,33 @@ export default function ComponentSelectionPage() {
         throw new Error(`Server error: ${response.status}`)
       }
 
-      const data = await response.json()
-      const componentsData = data.components || []
-      setComponents(componentsData)
-
-      // Extract available sources for filters
-      const sources = Array.from(new Set(componentsData.map((comp: Component) => comp.source)))
-      setAvailableSources(sources)
-
-      // Apply any existing filters to the new data
-      applyFilters(componentsData)
+      // Show each shop's components as soon as it answers; filters are re-applied when `components` changes
+      await readNdjson<RetailerStreamLine<Component>>(response, (line) => {
+        if (controller.signal.aborted) return
+
+        if (line.type === "batch") {
+          setComponents((prev) => [...prev, ...line.items])
+          setRetailerReports((prev) => ({ ...prev, [line.retailer]: line.report }))
+
+          // Extract available sources for filters
+          if (line.items.length > 0) {
+            setAvailableSources((prev) => (prev.includes(line.retailer) ? prev : [...prev, line.retailer]))
+          }
+        } else if (line.type === "error") {
+          throw new Error(line.message)
+        }
+      })
     } catch (err) {
+      if (controller.signal.aborted) return
       console.error("Error fetching components:", err)
       setError(err instanceof Error ? err.message : "Failed to load components. Please try again later.")
       setFilteredComponents([])
     } finally {
-      setLoading(false)
-      setSearching(false)
+      // The newer fetch that cancelled this one owns the loading state
+      if (streamController.current === controller) {
+        setLoading(false)
+        setSearching(false)
+      }
     }
   }
 
@@ -215,12 +282,22 @@ export default function ComponentSelectionPage() {
       result = result.filter((component) => component.availability === selectedAvailability)
     }
 
+    // Apply PSU wattage filter; units whose listing doesn't state a wattage are left out
+    if (adequatePsuOnly && recommendedPsuWatts) {
+      result = result.filter((component) => (parsePsuWatts(component) ?? 0) >= recommendedPsuWatts)
+    }
+
     // If there's a search query, prioritize exact matches
     if (searchQuery.trim()) {
       // Sort results to prioritize exact matches
       result = prioritizeExactMatches(result, searchQuery)
     }
 
+    // Apply price sorting on top of relevance ordering
+    if (sortOrder !== "relevance") {
+      result = [...result].sort((a, b) => comparePrices(a, b, sortOrder))
+    }
+
     setFilteredComponents(result)
   }
 
@@ -283,7 +360,7 @@ export default function ComponentSelectionPage() {
   // Apply filters when filter selections change
   useEffect(() => {
     applyFilters(components)
-  }, [selectedSource, selectedAvailability, components, searchQuery])
+  }, [selectedSource, selectedAvailability, components, searchQuery, sortOrder, adequatePsuOnly, recommendedPsuWatts])
 
   // Handle search submission
   const handleSearch = () => {
@@ -299,14 +376,17 @@ export default function ComponentSelectionPage() {
 
   const handleSelectComponent = (component: Component) => {
     // Get current build from localStorage
-    const currentBuildStr = localStorage.getItem("pcBuild")
-    const currentBuild = currentBuildStr ? JSON.parse(currentBuildStr) : {}
+    const currentBuild = loadBuild()
 
-    // Update the build with the selected component
-    currentBuild[type] = component
+    // "Change" on the build page passes the item being swapped out; otherwise the part is added to its category
+    const replaceUrl = new URLSearchParams(window.location.search).get("replace")
+    const updatedBuild =
+      replaceUrl && currentBuild[type]?.some((item) => item.url === replaceUrl)
+        ? replaceItem(currentBuild, type, replaceUrl, component)
+        : addItem(currentBuild, type, component)
 
     // Save updated build to localStorage
-    localStorage.setItem("pcBuild", JSON.stringify(currentBuild))
+    saveBuild(updatedBuild)
 
     // Navigate back to build page
     router.push("/build")
@@ -471,6 +551,29 @@ export default function ComponentSelectionPage() {
               </div>
             </div>
 
+            <div className="mb-4">
+              <h3 className="font-medium mb-2">Sort</h3>
+              <div className="space-y-2">
+                {[
+                  { id: "relevance", label: "Relevance" },
+                  { id: "price-asc", label: "Price: Low to High" },
+                  { id: "price-desc", label: "Price: High to Low" },
+                ].map((option) => (
+                  <Button
+                    key={option.id}
+                    variant={sortOrder === option.id ? "default" : "outline"}
+                    size="sm"
+                    className="mr-2"
+                    onClick={() => setSortOrder(option.id as typeof sortOrder)}
+                    disabled={loading}
+                  >
+                    {option.label}
+                    {sortOrder === option.id && <Check className="ml-2 h-3 w-3" />}
+                  </Button>
+                ))}
+              </div>
+            </div>
+
             <div>
               <h3 className="font-medium mb-2">Availability</h3>
               <div className="space-y-2">
@@ -484,32 +587,46 @@ export default function ComponentSelectionPage() {
                   All
                   {selectedAvailability === null && <Check className="ml-2 h-3 w-3" />}
                 </Button>
+                {(Object.keys(AVAILABILITY_LABELS) as Availability[])
+                  .filter((availability) => components.some((component) => component.availability === availability))
+                  .map((availability) => (
+                    <Button
+                      key={availability}
+                      variant={selectedAvailability === availability ? "default" : "outline"}
+                      size="sm"
+                      className="mr-2"
+                      onClick={() => setSelectedAvailability(availability)}
+                      disabled={loading}
+                    >
+                      {AVAILABILITY_LABELS[availability]}
+                      {selectedAvailability === availability && <Check className="ml-2 h-3 w-3" />}
+                    </Button>
+                  ))}
+              </div>
+            </div>
+
+            {recommendedPsuWatts && (
+              <div className="mt-4">
+                <h3 className="font-medium mb-2">Wattage</h3>
                 <Button
-                  variant={selectedAvailability === "In Stock" ? "default" : "outline"}
-                  size="sm"
-                  className="mr-2"
-                  onClick={() => setSelectedAvailability("In Stock")}
-                  disabled={loading}
-                >
-                  In Stock
-                  {selectedAvailability === "In Stock" && <Check className="ml-2 h-3 w-3" />}
-                </Button>
-                <Button
-                  variant={selectedAvailability === "Out of Stock" ? "default" : "outline"}
+                  variant={adequatePsuOnly ? "default" : "outline"}
                   size="sm"
-                  onClick={() => setSelectedAvailability("Out of Stock")}
+                  onClick={() => setAdequatePsuOnly(!adequatePsuOnly)}
                   disabled={loading}
                 >
-                  Out of Stock
-                  {selectedAvailability === "Out of Stock" && <Check className="ml-2 h-3 w-3" />}
+                  {recommendedPsuWatts}W and up
+                  {adequatePsuOnly && <Check className="ml-2 h-3 w-3" />}
                 </Button>
+                <p className="text-xs text-muted-foreground mt-2">Recommended for the parts in your build</p>
               </div>
-            </div>
+            )}
           </div>
 
           {/* Components list */}
           <div>
-            {loading ? (
+            <RetailerStatusBar reports={retailerReports} className="mb-4" />
+
+            {loading && filteredComponents.length === 0 ? (
               <div>
                 <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
                   {Array(9)
@@ -560,6 +677,7 @@ export default function ComponentSelectionPage() {
                 <div className="flex justify-between items-center mb-4">
                   <p className="text-sm text-muted-foreground">
                     Showing {filteredComponents.length} {filteredComponents.length === 1 ? "result" : "results"}
+                    {loading && <Loader2 className="inline h-3 w-3 ml-2 animate-spin" />}
                   </p>
                   {searchQuery && (
                     <Badge variant="outline" className="flex items-center gap-1">
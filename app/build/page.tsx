@@ -24,6 +24,11 @@ import {
   ChevronDown,
   ChevronUp,
   Loader2,
+  Minus,
+  FolderOpen,
+  Wand2,
+  FileDown,
+  ClipboardPaste,
 } from "lucide-react"
 import Image from "next/image"
 import { SiteHeader } from "@/components/site-header"
@@ -31,24 +36,65 @@ import { AttentionBanner } from "@/components/attention-banner"
 import { ProductTooltip } from "@/components/product-tooltip"
 import { useToast } from "@/hooks/use-toast"
 import { useRouter } from "next/navigation"
+import { AvailabilityBadge } from "@/components/availability-badge"
+import { BuildGeneratorDialog } from "@/components/build-generator-dialog"
+import { BuildLibraryDialog, SaveBuildDialog } from "@/components/build-library"
+import { CategoryIssues, CompatibilitySummary } from "@/components/compatibility-issues"
+import { ExportBuildDialog } from "@/components/export-build-dialog"
+import { ImportBuildDialog } from "@/components/import-build-dialog"
+import { PowerSummary } from "@/components/power-summary"
+import { PriceDriftReport } from "@/components/price-drift-report"
+import { PurchaseChecklistDialog } from "@/components/purchase-checklist-dialog"
+import { PurchaseOptimizer } from "@/components/purchase-optimizer"
+import { RetailerTotalValue } from "@/components/retailer-total"
+import { isPurchasable, toAvailability, type Availability } from "@/lib/availability"
+import {
+  allowsMultiple,
+  buildItems,
+  buildTotal,
+  lineTotal,
+  loadBuild,
+  MAX_QUANTITY,
+  removeItem,
+  replaceItem,
+  saveBuild,
+  setQuantity,
+  type Build,
+  type BuildItem,
+} from "@/lib/build"
+import type { GeneratedBuild } from "@/lib/build-generator"
+import {
+  addToLibrary,
+  duplicateInLibrary,
+  loadActiveBuildId,
+  loadLibrary,
+  removeFromLibrary,
+  renameInLibrary,
+  saveActiveBuildId,
+  saveLibrary,
+  syncActiveEntry,
+  type SavedBuild,
+} from "@/lib/build-library"
+import { sharedBuildSchema, type SharedBuild } from "@/lib/builds/schema"
+import { checkCompatibility, issuesFor } from "@/lib/compatibility"
+import { estimatePower } from "@/lib/power"
+import { formatAmount, formatPrice, toPrice, type Price } from "@/lib/price"
+import { checkBuildPrices, hasDrift, priceCheckDue, refreshedBuild, type DriftReport } from "@/lib/price-drift"
+import {
+  DEFAULT_OPTIMIZER_OPTIONS,
+  optimizePurchase,
+  rankRetailerTotals,
+  retailerTotals,
+  type OptimizerOptions,
+} from "@/lib/pricing"
+import { retailers } from "@/lib/retailers/registry"
 
 // Define component types
-interface PCComponent {
-  type: string
-  name: string
-  price: string
-  image: string
-  source: string
-  url: string
-  availability: string
-  specs?: Record<string, string>
-}
-
 interface CrossSiteComponent {
   name: string
-  price: string
+  price: Price
   image: string
-  availability: string
+  availability: Availability
   source: string
   url: string
   specs?: Record<string, string>
@@ -71,6 +117,44 @@ const componentCategories = [
   { id: "monitor", label: "Monitor", icon: Monitor },
 ]
 
+// Badges of the shops that have their own colour and initials
+const BADGE_STYLES: Record<string, { icon: string; color: string }> = {
+  Startech: { icon: "ST", color: "bg-blue-900" },
+  Techland: { icon: "TL", color: "bg-gray-900" },
+  UltraTech: { icon: "UT", color: "bg-purple-900" },
+  "Potaka IT": { icon: "PI", color: "bg-green-900" },
+  "PC House": { icon: "PC", color: "bg-red-900" },
+  Skyland: { icon: "SK", color: "bg-teal-900" },
+}
+
+// Any other shop gets the initials of its name on a neutral badge: "Global Brand" -> "GB", "Ryans" -> "RY"
+const retailerBadge = (name: string) => {
+  const words = name.split(/\s+/).filter(Boolean)
+  const icon = words.length > 1 ? words[0][0] + words[1][0] : name.slice(0, 2)
+  return { name, ...(BADGE_STYLES[name] ?? { icon: icon.toUpperCase(), color: "bg-slate-700" }) }
+}
+
+// Shops compared on the build page, in the registry's order, with the badge shown beside their name
+const retailerBadges = retailers.map((retailer) => retailerBadge(retailer.name))
+
+// A row of the desktop build table: one build item, or a category with nothing picked
+interface BuildRow {
+  category: (typeof componentCategories)[number]
+  item?: BuildItem
+  prices?: CrossSitePrices
+  isFirst: boolean
+  isLast: boolean
+}
+
+// Cross-site prices saved before prices and availability were structured still hold plain strings
+const normalizeSavedComponent = <T extends { price: Price | string; availability: Availability | string }>(
+  component: T,
+): T => ({
+  ...component,
+  price: toPrice(component.price),
+  availability: toAvailability(component.availability),
+})
+
 // Helper function to truncate name to specified number of words
 const truncateName = (name: string, wordCount: number): string => {
   const words = name.split(" ")
@@ -79,17 +163,8 @@ const truncateName = (name: string, wordCount: number): string => {
 }
 
 export default function BuildPage() {
-  // Add a new state variable for the base total at the top with other state variables
-  const [totalBase, setTotalBase] = useState(0)
-  // Add state variables for the new shops
-  const [totalStartech, setTotalStartech] = useState(0)
-  const [totalTechland, setTotalTechland] = useState(0)
-  const [totalUltraTech, setTotalUltraTech] = useState(0)
-  const [totalPotakaIT, setTotalPotakaIT] = useState(0)
-  const [totalPCHouse, setTotalPCHouse] = useState(0)
-  // Add a new state variable for Skyland total:
-  const [totalSkyland, setTotalSkyland] = useState(0)
-  const [selectedComponents, setSelectedComponents] = useState<Record<string, PCComponent | null>>({})
+  const [selectedComponents, setSelectedComponents] = useState<Build>({})
+  // Cross-site prices and their loading state are keyed by the URL of the build item they were found for
   const [crossSitePrices, setCrossSitePrices] = useState<Record<string, CrossSitePrices>>({})
   const [loading, setLoading] = useState(true)
   const [crossSiteLoading, setCrossSiteLoading] = useState<Record<string, boolean>>({})
@@ -97,12 +172,30 @@ export default function BuildPage() {
   const [expandedCategory, setExpandedCategory] = useState<string | null>(null)
   // Add state for share button loading
   const [isSharing, setIsSharing] = useState(false)
+  // Saved builds, and the one the working build was opened from
+  const [library, setLibrary] = useState<SavedBuild[]>([])
+  const [activeBuildId, setActiveBuildId] = useState<string | null>(null)
+  const [saveDialogOpen, setSaveDialogOpen] = useState(false)
+  const [libraryOpen, setLibraryOpen] = useState(false)
+  const [generatorOpen, setGeneratorOpen] = useState(false)
+  const [checklistOpen, setChecklistOpen] = useState(false)
+  const [exportOpen, setExportOpen] = useState(false)
+  const [importOpen, setImportOpen] = useState(false)
+  const [optimizerOptions, setOptimizerOptions] = useState<OptimizerOptions>(DEFAULT_OPTIMIZER_OPTIONS)
+  // Today's prices for the build's parts against those they were picked at
+  const [priceDrift, setPriceDrift] = useState<DriftReport | null>(null)
+  const [checkingPrices, setCheckingPrices] = useState(false)
+  const [driftVisible, setDriftVisible] = useState(false)
 
   const { toast } = useToast()
   const router = useRouter()
 
   // Load build from localStorage on component mount
   useEffect(() => {
+    // Carry changes made in the component picker over to the saved build they belong to
+    setLibrary(syncActiveEntry(loadBuild()))
+    setActiveBuildId(loadActiveBuildId())
+
     const urlParams = new URLSearchParams(window.location.search)
     const buildId = urlParams.get("build")
 
@@ -117,21 +210,33 @@ export default function BuildPage() {
     const savedCrossSitePrices = localStorage.getItem("pcBuildCrossSitePrices")
 
     if (savedBuild) {
-      const parsedBuild = JSON.parse(savedBuild)
+      const parsedBuild = loadBuild()
       setSelectedComponents(parsedBuild)
 
-      // If we have saved cross-site prices, load them
+      // Load saved cross-site prices, dropping any that no longer belong to an item in the build
+      const parsedCrossSitePrices: Record<string, CrossSitePrices> = {}
       if (savedCrossSitePrices) {
-        const parsedCrossSitePrices = JSON.parse(savedCrossSitePrices)
-        setCrossSitePrices(parsedCrossSitePrices)
-      } else {
-        // Otherwise fetch cross-site prices for each component
-        Object.entries(parsedBuild).forEach(([type, component]) => {
-          if (component) {
-            fetchCrossSitePrices(type, component)
-          }
+        const saved: Record<string, CrossSitePrices> = JSON.parse(savedCrossSitePrices)
+        buildItems(parsedBuild).forEach((item) => {
+          const prices = saved[item.url]
+          if (!prices) return
+
+          Object.entries(prices).forEach(([retailer, component]) => {
+            prices[retailer] = component ? normalizeSavedComponent(component) : null
+          })
+          parsedCrossSitePrices[item.url] = prices
         })
       }
+      setCrossSitePrices(parsedCrossSitePrices)
+
+      // Fetch cross-site prices for every item we don't have them for yet. Saved ones are only refreshed
+      // by "Refresh Prices", so a due drift check is the one search of the parts' own shops on load
+      buildItems(parsedBuild).forEach((item) => {
+        if (!parsedCrossSitePrices[item.url]) {
+          fetchCrossSitePrices(item)
+        }
+      })
+      if (priceCheckDue()) checkPrices(parsedBuild)
     }
 
     // Simulate loading delay for demonstration
@@ -159,44 +264,28 @@ export default function BuildPage() {
         throw new Error(data.error)
       }
 
-      // Convert the shared build format back to our component format
-      const formattedBuild = Object.entries(data.build).reduce(
-        (acc, [type, data]: [string, any]) => {
-          acc[type] = {
-            type,
-            name: data.name,
-            price: data.price,
-            image: data.image || "",
-            source: data.source,
-            url: data.url,
-            availability: data.availability || "In Stock",
-          }
-          return acc
-        },
-        {} as Record<string, PCComponent>,
-      )
-
-      // Clear existing components and cross-site prices completely
-      setSelectedComponents(formattedBuild)
-      setCrossSitePrices({})
-
-      // Save to localStorage, replacing any existing build
-      localStorage.setItem("pcBuild", JSON.stringify(formattedBuild))
-      localStorage.removeItem("pcBuildCrossSitePrices") // Clear cross-site prices
+      const parsed = sharedBuildSchema.safeParse(data.build)
+      if (!parsed.success) {
+        throw new Error("Shared build is malformed")
+      }
 
-      // Fetch cross-site prices for each component
-      Object.entries(formattedBuild).forEach(([type, component]) => {
-        if (component) {
-          fetchCrossSitePrices(type, component)
+      // Convert the shared build format back to our component format
+      const formattedBuild = Object.entries(parsed.data).reduce((acc, [type, items]) => {
+        if (items) {
+          acc[type] = items.map((item) => ({ ...item, type, image: item.image ?? "" }))
         }
-      })
+        return acc
+      }, {} as Build)
+
+      const entry = openAsNewEntry(`Shared build ${buildId}`, formattedBuild)
+      checkPrices(formattedBuild)
 
       // Remove the build parameter from URL to avoid reloading the same build
       router.replace("/build", undefined, { shallow: true })
 
       toast({
         title: "Shared build loaded!",
-        description: "This PC build was shared with you. Any previous build has been replaced.",
+        description: `Saved to My Builds as "${entry.name}". Your own builds are still there.`,
         duration: 5000,
       })
     } catch (error) {
@@ -212,148 +301,158 @@ export default function BuildPage() {
     }
   }
 
-  // Update the useEffect for calculating totals to include base total calculation
-  useEffect(() => {
-    let baseTotal = 0
-    let startechTotal = 0
-    let techlandTotal = 0
-    let ultratechTotal = 0
-    let potakaitTotal = 0
-    let pchouseTotal = 0
-    let skylandTotal = 0
-
-    console.log("Selected components:", selectedComponents)
-
-    // Calculate base total from selected components only
-    Object.entries(selectedComponents).forEach(([type, component]) => {
-      if (component) {
-        // Extract the numeric price value, handling discounted prices correctly
-        const price = component.price
-        const numericPrice = extractNumericPrice(price)
-        console.log(`Component ${type} price: ${price}, extracted: ${numericPrice}`)
-
-        if (numericPrice > 0) {
-          // Add to base total regardless of source
-          baseTotal += numericPrice
-
-          // Also add to the specific retailer total
-          if (component.source === "Startech") {
-            startechTotal += numericPrice
-          } else if (component.source === "Techland") {
-            techlandTotal += numericPrice
-          } else if (component.source === "UltraTech") {
-            ultratechTotal += numericPrice
-          } else if (component.source === "Potaka IT") {
-            potakaitTotal += numericPrice
-          } else if (component.source === "PC House") {
-            pchouseTotal += numericPrice
-          } else if (component.source === "Skyland") {
-            skylandTotal += numericPrice
-          }
-        }
-      }
-    })
+  // Save the working build, keeping the library entry it was opened from up to date
+  const persistBuild = (build: Build) => {
+    saveBuild(build)
+    setLibrary(syncActiveEntry(build))
+  }
 
-    // Add cross-site prices for components not selected from each retailer
-    Object.entries(crossSitePrices).forEach(([type, prices]) => {
-      // Skip if this component type is already selected
-      if (selectedComponents[type]) {
-        const selectedSource = selectedComponents[type]?.source
-
-        // For each retailer that isn't the source of the selected component,
-        // add the cross-site price to that retailer's total
-        Object.entries(prices).forEach(([retailer, component]) => {
-          if (component && retailer !== selectedSource) {
-            // Extract the numeric price value, handling discounted prices correctly
-            const price = component.price
-            const numericPrice = extractNumericPrice(price)
-            console.log(`Cross-site ${type} for ${retailer} price: ${price}, extracted: ${numericPrice}`)
-
-            if (numericPrice > 0) {
-              // Add to the specific retailer total
-              if (retailer === "Startech") {
-                startechTotal += numericPrice
-              } else if (retailer === "Techland") {
-                techlandTotal += numericPrice
-              } else if (retailer === "UltraTech") {
-                ultratechTotal += numericPrice
-              } else if (retailer === "Potaka IT") {
-                potakaitTotal += numericPrice
-              } else if (retailer === "PC House") {
-                pchouseTotal += numericPrice
-              } else if (retailer === "Skyland") {
-                skylandTotal += numericPrice
-              }
-            }
-          }
-        })
-      }
+  const updateLibrary = (updated: SavedBuild[]) => {
+    setLibrary(updated)
+    saveLibrary(updated)
+  }
+
+  const activateBuild = (id: string | null) => {
+    setActiveBuildId(id)
+    saveActiveBuildId(id)
+  }
+
+  // Before the working build is replaced, keep it in the library if it was never saved.
+  // Reads storage rather than state so it also works while the page is still loading.
+  const stashUnsavedBuild = (): SavedBuild[] => {
+    const current = loadLibrary()
+    const unsaved = loadBuild()
+    if (loadActiveBuildId() || buildItems(unsaved).length === 0) return current
+
+    const [updated] = addToLibrary(current, "Untitled build", unsaved)
+    updateLibrary(updated)
+    return updated
+  }
+
+  // Replace the working build, dropping cross-site prices found for the old one
+  const openInWorkspace = (build: Build) => {
+    setSelectedComponents(build)
+    setCrossSitePrices({})
+    setPriceDrift(null)
+    setDriftVisible(false)
+    saveBuild(build)
+    localStorage.removeItem("pcBuildCrossSitePrices")
+    buildItems(build).forEach((item) => fetchCrossSitePrices(item))
+  }
+
+  // Open a build as a new library entry, so the user's own work is kept
+  const openAsNewEntry = (name: string, build: Build): SavedBuild => {
+    const [updated, entry] = addToLibrary(stashUnsavedBuild(), name, build)
+    updateLibrary(updated)
+    activateBuild(entry.id)
+    openInWorkspace(build)
+    return entry
+  }
+
+  const openGeneratedBuild = (generated: GeneratedBuild, name: string) => {
+    const entry = openAsNewEntry(name, generated.build)
+    setGeneratorOpen(false)
+    toast({
+      title: "Build generated",
+      description: `Saved to My Builds as "${entry.name}". Swap any part to fine-tune it.`,
+      duration: 5000,
     })
+  }
 
-    console.log("Calculated totals:", {
-      baseTotal,
-      startechTotal,
-      techlandTotal,
-      ultratechTotal,
-      potakaitTotal,
-      pchouseTotal,
-      skylandTotal,
+  const openImportedBuild = (build: Build) => {
+    const entry = openAsNewEntry("Imported build", build)
+    setImportOpen(false)
+    toast({
+      title: "Parts list imported",
+      description: `Saved to My Builds as "${entry.name}".`,
+      duration: 5000,
     })
+  }
 
-    setTotalBase(baseTotal)
-    setTotalStartech(startechTotal)
-    setTotalTechland(techlandTotal)
-    setTotalUltraTech(ultratechTotal)
-    setTotalPotakaIT(potakaitTotal)
-    setTotalPCHouse(pchouseTotal)
-    setTotalSkyland(skylandTotal)
-  }, [selectedComponents, crossSitePrices])
-
-  // Improved helper function to extract the numeric price value, handling more price formats
-  const extractNumericPrice = (priceString: string): number => {
-    if (!priceString) return 0
-
-    // Remove any non-breaking spaces and normalize whitespace
-    const normalizedPrice = priceString.replace(/\u00A0/g, " ").trim()
-
-    // If the price contains multiple prices (e.g., "৳ 12,500 ৳ 13,000")
-    // Use the first price which is typically the discounted price
-    if (normalizedPrice.includes("৳") && normalizedPrice.split("৳").length > 2) {
-      const prices = normalizedPrice.split("৳").filter((p) => p.trim())
-      if (prices.length >= 1) {
-        // Extract numeric value from the first price
-        const firstPrice = prices[0].trim()
-        const numericMatch = firstPrice.match(/[\d,]+/)
-        if (numericMatch) {
-          return Number.parseFloat(numericMatch[0].replace(/,/g, "")) || 0
-        }
-      }
-    }
+  const openSavedBuild = (entry: SavedBuild) => {
+    stashUnsavedBuild()
+    activateBuild(entry.id)
+    openInWorkspace(entry.build)
+    checkPrices(entry.build)
+    setLibraryOpen(false)
+    toast({ title: `Opened "${entry.name}"`, duration: 3000 })
+  }
 
-    // For regular prices with ৳ symbol
-    const bengaliPriceMatch = normalizedPrice.match(/৳\s*([\d,]+)/)
-    if (bengaliPriceMatch && bengaliPriceMatch[1]) {
-      return Number.parseFloat(bengaliPriceMatch[1].replace(/,/g, "")) || 0
-    }
+  const startNewBuild = () => {
+    stashUnsavedBuild()
+    activateBuild(null)
+    openInWorkspace({})
+    setLibraryOpen(false)
+  }
+
+  const handleSaveBuild = (name: string, asNew: boolean) => {
+    const active = library.find((entry) => entry.id === activeBuildId)
 
-    // For prices without ৳ symbol, try to extract any numeric value
-    const numericMatch = normalizedPrice.match(/([\d,]+)/)
-    if (numericMatch && numericMatch[1]) {
-      return Number.parseFloat(numericMatch[1].replace(/,/g, "")) || 0
+    if (active && !asNew) {
+      updateLibrary(renameInLibrary(library, active.id, name.trim() || active.name))
+      toast({ title: "Build saved", duration: 3000 })
+      return
     }
 
-    // If all else fails, try to extract any digits
-    const digits = normalizedPrice.match(/\d+/g)
-    if (digits && digits.length > 0) {
-      return Number.parseFloat(digits.join("")) || 0
+    const [updated, entry] = addToLibrary(library, name, selectedComponents)
+    updateLibrary(updated)
+    activateBuild(entry.id)
+    toast({ title: "Build saved", description: `Find "${entry.name}" under My Builds.`, duration: 3000 })
+  }
+
+  const deleteSavedBuild = (id: string) => {
+    updateLibrary(removeFromLibrary(library, id))
+    // The working build stays as it is, just no longer tied to a saved entry
+    if (id === activeBuildId) activateBuild(null)
+  }
+
+  // Search every part's shop again and show what changed since the parts were picked. Checks made
+  // on their own only show the report when something changed
+  const checkPrices = async (build: Build, requested = false) => {
+    if (buildItems(build).length === 0) return
+    setCheckingPrices(true)
+    if (requested) setDriftVisible(true)
+
+    try {
+      const report = await checkBuildPrices(build)
+      setPriceDrift(report)
+      if (hasDrift(report)) {
+        setDriftVisible(true)
+      } else if (requested) {
+        setDriftVisible(false)
+        toast({
+          title: "Prices are up to date",
+          description: "Nothing changed since the parts were picked.",
+          duration: 3000,
+        })
+      }
+    } finally {
+      setCheckingPrices(false)
     }
+  }
+
+  const refreshPrices = () => {
+    checkPrices(selectedComponents, true)
+    buildItems(selectedComponents).forEach((item) => fetchCrossSitePrices(item))
+  }
+
+  const applyCurrentPrices = () => {
+    const updatedComponents = refreshedBuild(selectedComponents, priceDrift!)
+    setSelectedComponents(updatedComponents)
+    persistBuild(updatedComponents)
+    setPriceDrift(null)
+    setDriftVisible(false)
+    toast({ title: "Prices updated", description: "Your build now shows today's prices.", duration: 3000 })
+  }
 
-    return 0
+  const replaceUnavailablePart = (item: BuildItem, replacement: CrossSiteComponent) => {
+    selectCrossSiteComponent(item, replacement)
+    setPriceDrift((prev) => prev && { ...prev, parts: prev.parts.filter((part) => part.item.url !== item.url) })
   }
 
   // Function to fetch cross-site prices for a component
-  const fetchCrossSitePrices = async (type: string, component: PCComponent) => {
-    setCrossSiteLoading((prev) => ({ ...prev, [type]: true }))
+  const fetchCrossSitePrices = async (component: BuildItem) => {
+    setCrossSiteLoading((prev) => ({ ...prev, [component.url]: true }))
 
     try {
       // Add timeout to prevent hanging requests
@@ -361,7 +460,7 @@ export default function BuildPage() {
       const timeoutId = setTimeout(() => controller.abort(), 30000) // 30 second timeout
 
       const response = await fetch(
-        `/api/cross-site-search?query=${encodeURIComponent(component.name)}&excludeSource=${encodeURIComponent(component.source)}`,
+        `/api/cross-site-search?query=${encodeURIComponent(component.name)}&excludeSource=${encodeURIComponent(component.source)}&type=${component.type}`,
         { signal: controller.signal },
       ).catch((error) => {
         console.error(`Error fetching cross-site prices: ${error.message}`)
@@ -379,7 +478,7 @@ export default function BuildPage() {
       setCrossSitePrices((prev) => {
         const updated = {
           ...prev,
-          [type]: data.crossSiteProducts,
+          [component.url]: data.crossSiteProducts,
         }
 
         // Save to localStorage
@@ -391,70 +490,99 @@ export default function BuildPage() {
       console.error("Error fetching cross-site prices:", error)
       // Don't update state on error to keep previous data
     } finally {
-      setCrossSiteLoading((prev) => ({ ...prev, [type]: false }))
+      setCrossSiteLoading((prev) => ({ ...prev, [component.url]: false }))
     }
   }
 
   // Function to remove a component from the build
-  const removeComponent = (categoryId: string) => {
-    const updatedComponents = { ...selectedComponents }
-    delete updatedComponents[categoryId]
+  const removeComponent = (item: BuildItem) => {
+    const updatedComponents = removeItem(selectedComponents, item.type, item.url)
 
     // Also remove cross-site prices
     const updatedCrossSitePrices = { ...crossSitePrices }
-    delete updatedCrossSitePrices[categoryId]
+    delete updatedCrossSitePrices[item.url]
 
     setSelectedComponents(updatedComponents)
     setCrossSitePrices(updatedCrossSitePrices)
 
     // Update both in localStorage
-    localStorage.setItem("pcBuild", JSON.stringify(updatedComponents))
+    persistBuild(updatedComponents)
     localStorage.setItem("pcBuildCrossSitePrices", JSON.stringify(updatedCrossSitePrices))
   }
 
+  const updateQuantity = (item: BuildItem, quantity: number) => {
+    const updatedComponents = setQuantity(selectedComponents, item.type, item.url, quantity)
+    setSelectedComponents(updatedComponents)
+    persistBuild(updatedComponents)
+  }
+
   // Function to handle price display
-  const renderPrice = (price: string, source: string) => {
-    // If the component is not from this source, return N/A
-    if (
-      !price ||
-      (source !== "Startech" &&
-        source !== "Techland" &&
-        source !== "UltraTech" &&
-        source !== "Potaka IT" &&
-        source !== "PC House" &&
-        source !== "Skyland")
-    ) {
+  const renderPrice = (price: Price | undefined, source: string) => {
+    // If the component is not from a known source, return N/A
+    if (!price || !retailerBadges.some((retailer) => retailer.name === source)) {
       return "N/A"
     }
 
-    // Check if price contains multiple prices (e.g., "৳ 12,500 ৳ 13,000")
-    if (price.includes("৳") && price.split("৳").length > 2) {
-      const prices = price.split("৳").filter((p) => p.trim())
+    return formatPrice(price)
+  }
 
-      // If we have at least two prices
-      if (prices.length >= 2) {
-        return `৳ ${prices[0].trim()}`
-      }
+  // A shop's column in the desktop table: the part picked there, the same part listed there to switch
+  // to, or N/A
+  const renderRetailerCell = (retailer: string, item?: BuildItem, prices?: CrossSitePrices) => {
+    const match = prices?.[retailer]
+
+    if (item?.source === retailer) {
+      return (
+        <div className="flex flex-col space-y-1">
+          <div className="font-medium text-sm text-right">{renderPrice(item.price, retailer)}</div>
+          <div className="flex items-center justify-end gap-1 mt-1">
+            <div className="px-1.5 py-0.5 bg-primary/10 text-xs rounded text-primary">Selected</div>
+            <a href={item.url} target="_blank" rel="noopener noreferrer">
+              <Button variant="ghost" size="sm" className="h-5 px-1.5 text-xs">
+                <ExternalLink className="h-3 w-3" />
+              </Button>
+            </a>
+          </div>
+        </div>
+      )
     }
 
-    // Ensure consistent format with space after ৳
-    if (price.startsWith("৳") && !price.startsWith("৳ ")) {
-      return price.replace("৳", "৳ ")
+    if (item && match) {
+      return (
+        <div className="flex flex-col space-y-1">
+          <div className="font-medium text-sm text-right">{renderPrice(match.price, retailer)}</div>
+          <div className="flex items-center justify-end gap-1 mt-1">
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-5 px-1.5 text-xs text-primary border-primary/30 hover:bg-primary/5 hover:text-primary hover:border-primary"
+              onClick={() => selectCrossSiteComponent(item, match)}
+            >
+              <Check className="h-3 w-3 mr-0.5" />
+              Select
+            </Button>
+            <a href={match.url} target="_blank" rel="noopener noreferrer">
+              <Button variant="ghost" size="sm" className="h-5 px-1.5 text-xs">
+                <ExternalLink className="h-3 w-3" />
+              </Button>
+            </a>
+          </div>
+        </div>
+      )
     }
 
-    // Regular price display
-    return price
+    return <span className="text-muted-foreground text-sm text-right block">N/A</span>
   }
 
   // Function to refresh cross-site prices for a component
-  const refreshCrossSitePrices = (type: string, component: PCComponent) => {
-    fetchCrossSitePrices(type, component)
+  const refreshCrossSitePrices = (component: BuildItem) => {
+    fetchCrossSitePrices(component)
   }
 
-  // Function to select a cross-site component
-  const selectCrossSiteComponent = (type: string, component: CrossSiteComponent) => {
-    const newComponent: PCComponent = {
-      type,
+  // Function to swap a build item for the same part from another shop
+  const selectCrossSiteComponent = (item: BuildItem, component: CrossSiteComponent) => {
+    const newComponent: BuildItem = {
+      type: item.type,
       name: component.name,
       price: component.price,
       image: component.image,
@@ -462,16 +590,72 @@ export default function BuildPage() {
       url: component.url,
       availability: component.availability,
       specs: component.specs,
+      quantity: item.quantity,
     }
 
-    const updatedComponents = { ...selectedComponents, [type]: newComponent }
+    const updatedComponents = replaceItem(selectedComponents, item.type, item.url, newComponent)
     setSelectedComponents(updatedComponents)
-    localStorage.setItem("pcBuild", JSON.stringify(updatedComponents))
+    persistBuild(updatedComponents)
 
     // Fetch cross-site prices for the new component
-    fetchCrossSitePrices(type, newComponent)
+    fetchCrossSitePrices(newComponent)
+  }
+
+  // Move every part the cheapest-combination plan buys elsewhere to that shop's listing
+  const applyPurchasePlan = () => {
+    const changes = purchasePlan.assignments.filter((assignment) => assignment.changed)
+    const updatedComponents = changes.reduce(
+      (build, { item, offer }) => replaceItem(build, item.type, item.url, offer),
+      selectedComponents,
+    )
+    setSelectedComponents(updatedComponents)
+    persistBuild(updatedComponents)
+
+    changes.forEach(({ item, offer }) => fetchCrossSitePrices({ ...offer, type: item.type, quantity: item.quantity }))
+
+    toast({
+      title: "Plan applied",
+      description: `Your build now buys from ${purchasePlan.shops.join(", ")}.`,
+      duration: 3000,
+    })
+  }
+
+  // Show a single part's price as listed, and several parts as the category subtotal
+  const renderCategoryPrice = (items: BuildItem[]) => {
+    if (items.length === 1 && items[0].quantity === 1) return renderPrice(items[0].price, items[0].source)
+    const subtotal = items.reduce((total, item) => total + lineTotal(item), 0)
+    return subtotal > 0 ? formatAmount(subtotal) : "N/A"
   }
 
+  const renderQuantity = (item: BuildItem) => (
+    <div className="flex items-center gap-1 mt-1">
+      <Button
+        variant="outline"
+        size="sm"
+        className="h-5 w-5 p-0"
+        onClick={() => updateQuantity(item, item.quantity - 1)}
+        disabled={item.quantity <= 1}
+        aria-label="Decrease quantity"
+      >
+        <Minus className="h-3 w-3" />
+      </Button>
+      <span className="w-5 text-center text-xs">{item.quantity}</span>
+      <Button
+        variant="outline"
+        size="sm"
+        className="h-5 w-5 p-0"
+        onClick={() => updateQuantity(item, item.quantity + 1)}
+        disabled={item.quantity >= MAX_QUANTITY}
+        aria-label="Increase quantity"
+      >
+        <Plus className="h-3 w-3" />
+      </Button>
+    </div>
+  )
+
+  // Link to the picker that swaps out this one item instead of adding another
+  const changeHref = (item: BuildItem) => `/build/components/${item.type}?replace=${encodeURIComponent(item.url)}`
+
   // Toggle category expansion for mobile view
   const toggleCategory = (categoryId: string) => {
     if (expandedCategory === categoryId) {
@@ -483,26 +667,26 @@ export default function BuildPage() {
 
   // Function to handle sharing the build with short URL
   const handleShareBuild = async () => {
-    if (Object.keys(selectedComponents).length === 0) return
+    if (buildItems(selectedComponents).length === 0) return
 
     setIsSharing(true)
 
     try {
       // Create a simplified version of the build with just the essential info
-      const shareBuild = Object.entries(selectedComponents).reduce(
-        (acc, [type, component]) => {
-          if (component) {
-            acc[type] = {
-              name: component.name,
-              price: component.price,
-              source: component.source,
-              url: component.url,
-            }
-          }
-          return acc
-        },
-        {} as Record<string, any>,
-      )
+      const shareBuild = Object.entries(selectedComponents).reduce((acc, [type, items]) => {
+        acc[type as keyof SharedBuild] = items.map((component) => ({
+          name: component.name,
+          price: component.price,
+          // Listings without a usable image are shared without one rather than rejected
+          image: /^https:\/\//i.test(component.image) ? component.image : undefined,
+          source: component.source,
+          url: component.url,
+          availability: component.availability,
+          specs: component.specs,
+          quantity: component.quantity,
+        }))
+        return acc
+      }, {} as SharedBuild)
 
       // Send the build data to our API to get a short ID
       const response = await fetch("/api/builds", {
@@ -543,6 +727,34 @@ export default function BuildPage() {
     }
   }
 
+  const compatibilityIssues = checkCompatibility(selectedComponents)
+  const selectedCount = buildItems(selectedComponents).length
+  const powerEstimate = estimatePower(selectedComponents)
+  const baseTotal = buildTotal(selectedComponents)
+  const shopTotals = retailerTotals(
+    selectedComponents,
+    crossSitePrices,
+    retailerBadges.map((retailer) => retailer.name),
+  )
+  const rankedShopTotals = rankRetailerTotals(shopTotals)
+  const cheapestCompleteShop = rankedShopTotals[0]?.complete ? rankedShopTotals[0].retailer : null
+  const purchasePlan = optimizePurchase(selectedComponents, crossSitePrices, optimizerOptions)
+  const activeBuild = library.find((entry) => entry.id === activeBuildId) ?? null
+
+  // One table row per build item, plus an empty row for each category with nothing picked
+  const buildRows = componentCategories.flatMap<BuildRow>((category) => {
+    const items = selectedComponents[category.id] || []
+    if (items.length === 0) return [{ category, isFirst: true, isLast: true }]
+
+    return items.map((item, index) => ({
+      category,
+      item,
+      prices: crossSitePrices[item.url],
+      isFirst: index === 0,
+      isLast: index === items.length - 1,
+    }))
+  })
+
   return (
     <div className="min-h-screen">
       <AttentionBanner />
@@ -552,10 +764,31 @@ export default function BuildPage() {
           <div className="flex flex-wrap gap-4 justify-between items-center">
             <div>
               <h2 className="text-xl font-semibold">Your PC Build</h2>
-              <p className="text-muted-foreground text-sm">Select components to build your PC</p>
+              <p className="text-muted-foreground text-sm">
+                {activeBuild ? `Saved as "${activeBuild.name}"` : "Select components to build your PC"}
+              </p>
             </div>
-            <div className="flex gap-2">
-              <Button variant="outline" size="sm">
+            <div className="flex flex-wrap gap-2">
+              <Button variant="outline" size="sm" onClick={() => setGeneratorOpen(true)}>
+                <Wand2 className="mr-2 h-4 w-4" />
+                <span className="hidden sm:inline">Build for Me</span>
+                <span className="sm:hidden">Auto</span>
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => setImportOpen(true)}>
+                <ClipboardPaste className="mr-2 h-4 w-4" />
+                Import
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => setLibraryOpen(true)}>
+                <FolderOpen className="mr-2 h-4 w-4" />
+                <span className="hidden sm:inline">My Builds</span>
+                <span className="sm:hidden">Builds</span>
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setSaveDialogOpen(true)}
+                disabled={selectedCount === 0}
+              >
                 <Save className="mr-2 h-4 w-4" />
                 <span className="hidden sm:inline">Save Build</span>
                 <span className="sm:hidden">Save</span>
@@ -564,198 +797,235 @@ export default function BuildPage() {
                 variant="outline"
                 size="sm"
                 onClick={handleShareBuild}
-                disabled={Object.keys(selectedComponents).length === 0 || isSharing}
+                disabled={selectedCount === 0 || isSharing}
               >
                 {isSharing ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Share className="mr-2 h-4 w-4" />}
                 <span className="hidden sm:inline">{isSharing ? "Creating..." : "Share"}</span>
                 {isSharing && <span className="sm:hidden">...</span>}
                 {!isSharing && <span className="sm:hidden">Share</span>}
               </Button>
-              <Button size="sm">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={refreshPrices}
+                disabled={selectedCount === 0 || checkingPrices}
+              >
+                <RefreshCw className={`mr-2 h-4 w-4 ${checkingPrices ? "animate-spin" : ""}`} />
+                <span className="hidden sm:inline">Refresh Prices</span>
+                <span className="sm:hidden">Prices</span>
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => setExportOpen(true)} disabled={selectedCount === 0}>
+                <FileDown className="mr-2 h-4 w-4" />
+                Export
+              </Button>
+              <Button size="sm" onClick={() => setChecklistOpen(true)} disabled={selectedCount === 0}>
                 <ShoppingCart className="mr-2 h-4 w-4" />
                 <span className="hidden sm:inline">Buy Parts</span>
                 <span className="sm:hidden">Buy</span>
               </Button>
             </div>
           </div>
+          <PowerSummary estimate={powerEstimate} className="mt-3 pt-3 border-t" />
         </div>
 
+        <CompatibilitySummary
+          issues={compatibilityIssues}
+          partCount={selectedCount}
+          className="bg-card rounded-lg shadow-sm p-4 mb-6"
+        />
+
+        {driftVisible && (
+          <PriceDriftReport
+            report={checkingPrices ? null : priceDrift}
+            checking={checkingPrices}
+            onRefresh={refreshPrices}
+            onApply={applyCurrentPrices}
+            onReplace={replaceUnavailablePart}
+            onDismiss={() => setDriftVisible(false)}
+            className="bg-card rounded-lg shadow-sm p-4 mb-6"
+          />
+        )}
+
+        {selectedCount > 0 && (
+          <PurchaseOptimizer
+            plan={purchasePlan}
+            options={optimizerOptions}
+            onOptionsChange={setOptimizerOptions}
+            onApply={applyPurchasePlan}
+            className="bg-card rounded-lg shadow-sm p-4 mb-6"
+          />
+        )}
+
         {/* Mobile view */}
         <div className="md:hidden">
           <div className="bg-card rounded-lg shadow-sm p-3 mb-3">
             <div className="flex justify-between items-center">
               <h3 className="font-medium text-sm">Total Price</h3>
               <div className="font-bold text-base text-primary">
-                {totalBase > 0 ? `৳ ${totalBase.toLocaleString()}` : "N/A"}
+                {baseTotal > 0 ? formatAmount(baseTotal) : "N/A"}
               </div>
             </div>
           </div>
 
-          {componentCategories.map((category) => (
-            <div key={category.id} className="bg-card rounded-lg shadow-sm mb-3 overflow-hidden">
-              <div
-                className="p-4 flex justify-between items-center cursor-pointer"
-                onClick={() => toggleCategory(category.id)}
-              >
-                <div className="flex items-center gap-2">
-                  <category.icon className="h-5 w-5 text-primary" />
-                  <span className="font-medium">{category.label}</span>
-                </div>
-                <div className="flex items-center gap-2">
-                  {selectedComponents[category.id] && (
-                    <span className="text-sm font-medium text-primary">
-                      {renderPrice(
-                        selectedComponents[category.id]?.price || "",
-                        selectedComponents[category.id]?.source || "",
-                      )}
-                    </span>
-                  )}
-                  {expandedCategory === category.id ? (
-                    <ChevronUp className="h-5 w-5 text-muted-foreground" />
-                  ) : (
-                    <ChevronDown className="h-5 w-5 text-muted-foreground" />
-                  )}
+          {componentCategories.map((category) => {
+            const items = selectedComponents[category.id] || []
+            return (
+              <div key={category.id} className="bg-card rounded-lg shadow-sm mb-3 overflow-hidden">
+                <div
+                  className="p-4 flex justify-between items-center cursor-pointer"
+                  onClick={() => toggleCategory(category.id)}
+                >
+                  <div className="flex items-center gap-2">
+                    <category.icon className="h-5 w-5 text-primary" />
+                    <span className="font-medium">{category.label}</span>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    {items.length > 0 && (
+                      <span className="text-sm font-medium text-primary">{renderCategoryPrice(items)}</span>
+                    )}
+                    {expandedCategory === category.id ? (
+                      <ChevronUp className="h-5 w-5 text-muted-foreground" />
+                    ) : (
+                      <ChevronDown className="h-5 w-5 text-muted-foreground" />
+                    )}
+                  </div>
                 </div>
-              </div>
 
-              {expandedCategory === category.id && (
-                <div className="p-4 pt-0 border-t mt-2">
-                  {loading ? (
-                    <div className="flex items-start gap-3">
-                      <Skeleton className="w-12 h-12 rounded" />
-                      <div className="flex-1">
-                        <Skeleton className="h-4 w-32 mb-2" />
-                        <Skeleton className="h-3 w-20" />
-                      </div>
-                    </div>
-                  ) : selectedComponents[category.id] ? (
-                    <div className="space-y-4">
+                {expandedCategory === category.id && (
+                  <div className="p-4 pt-0 border-t mt-2">
+                    {loading ? (
                       <div className="flex items-start gap-3">
-                        <div className="w-12 h-12 bg-white rounded relative flex-shrink-0">
-                          {selectedComponents[category.id]?.image ? (
-                            <Image
-                              src={selectedComponents[category.id]?.image || ""}
-                              alt={selectedComponents[category.id]?.name || ""}
-                              fill
-                              className="object-contain p-1"
-                            />
-                          ) : (
-                            <div className="flex items-center justify-center h-full text-muted-foreground text-xs">
-                              No image
-                            </div>
-                          )}
-                        </div>
+                        <Skeleton className="w-12 h-12 rounded" />
                         <div className="flex-1">
-                          {selectedComponents[category.id] && (
-                            <ProductTooltip product={selectedComponents[category.id]!}>
-                              <div className="font-medium text-sm truncate">
-                                {truncateName(selectedComponents[category.id]?.name || "", 4)}
-                              </div>
-                            </ProductTooltip>
-                          )}
-                          <div className="flex gap-2 mt-1">
-                            <Link href={`/build/components/${category.id}`}>
-                              <Button variant="link" className="p-0 h-auto text-xs text-muted-foreground">
-                                Change
-                              </Button>
-                            </Link>
-                            <Button
-                              variant="link"
-                              className="p-0 h-auto text-xs text-red-500"
-                              onClick={() => removeComponent(category.id)}
-                            >
-                              Remove
-                            </Button>
-                          </div>
+                          <Skeleton className="h-4 w-32 mb-2" />
+                          <Skeleton className="h-3 w-20" />
                         </div>
                       </div>
-
-                      {/* Cross-site prices */}
-                      {Object.entries(crossSitePrices[category.id] || {}).map(([retailer, component]) => {
-                        if (!component) return null
-                        return (
-                          <div key={retailer} className="flex items-center justify-between border-t pt-3">
-                            <div className="flex items-center gap-2">
-                              <div
-                                className={`h-6 w-6 rounded ${
-                                  retailer === "Startech"
-                                    ? "bg-blue-900"
-                                    : retailer === "Techland"
-                                      ? "bg-gray-900"
-                                      : retailer === "UltraTech"
-                                        ? "bg-purple-900"
-                                        : retailer === "Potaka IT"
-                                          ? "bg-green-900"
-                                          : retailer === "PC House"
-                                            ? "bg-red-900"
-                                            : "bg-teal-900"
-                                } flex items-center justify-center text-white text-xs`}
-                              >
-                                {retailer === "Startech"
-                                  ? "ST"
-                                  : retailer === "Techland"
-                                    ? "TL"
-                                    : retailer === "UltraTech"
-                                      ? "UT"
-                                      : retailer === "Potaka IT"
-                                        ? "PI"
-                                        : retailer === "PC House"
-                                          ? "PC"
-                                          : "SK"}
+                    ) : items.length > 0 ? (
+                      <div className="space-y-6">
+                        <CategoryIssues issues={issuesFor(compatibilityIssues, category.id)} />
+                        {items.map((item) => (
+                          <div key={item.url} className="space-y-4">
+                            <div className="flex items-start gap-3">
+                              <div className="w-12 h-12 bg-white rounded relative flex-shrink-0">
+                                {item.image ? (
+                                  <Image src={item.image} alt={item.name} fill className="object-contain p-1" />
+                                ) : (
+                                  <div className="flex items-center justify-center h-full text-muted-foreground text-xs">
+                                    No image
+                                  </div>
+                                )}
+                              </div>
+                              <div className="flex-1">
+                                <ProductTooltip product={item}>
+                                  <div className="font-medium text-sm truncate">{truncateName(item.name, 4)}</div>
+                                </ProductTooltip>
+                                {!isPurchasable(item.availability) && (
+                                  <AvailabilityBadge
+                                    availability={item.availability}
+                                    className="inline-block mt-1 px-1.5 py-0.5"
+                                  />
+                                )}
+                                {allowsMultiple(category.id) && renderQuantity(item)}
+                                <div className="flex gap-2 mt-1">
+                                  <Link href={changeHref(item)}>
+                                    <Button variant="link" className="p-0 h-auto text-xs text-muted-foreground">
+                                      Change
+                                    </Button>
+                                  </Link>
+                                  <Button
+                                    variant="link"
+                                    className="p-0 h-auto text-xs text-red-500"
+                                    onClick={() => removeComponent(item)}
+                                  >
+                                    Remove
+                                  </Button>
+                                </div>
                               </div>
-                              <div className="text-sm">{renderPrice(component.price, retailer)}</div>
                             </div>
-                            <Button
-                              variant="outline"
-                              size="sm"
-                              className="h-7 text-xs"
-                              onClick={() => selectCrossSiteComponent(category.id, component)}
-                            >
-                              Select
-                            </Button>
+
+                            {/* Cross-site prices */}
+                            {Object.entries(crossSitePrices[item.url] || {}).map(([retailer, component]) => {
+                              if (!component) return null
+                              const badge = retailerBadge(retailer)
+                              return (
+                                <div key={retailer} className="flex items-center justify-between border-t pt-3">
+                                  <div className="flex items-center gap-2">
+                                    <div
+                                      className={`h-6 w-6 rounded ${badge.color} flex items-center justify-center text-white text-xs`}
+                                    >
+                                      {badge.icon}
+                                    </div>
+                                    <div className="text-sm">{renderPrice(component.price, retailer)}</div>
+                                  </div>
+                                  <Button
+                                    variant="outline"
+                                    size="sm"
+                                    className="h-7 text-xs"
+                                    onClick={() => selectCrossSiteComponent(item, component)}
+                                  >
+                                    Select
+                                  </Button>
+                                </div>
+                              )
+                            })}
                           </div>
-                        )
-                      })}
-                    </div>
-                  ) : (
-                    <Link href={`/build/components/${category.id}`}>
-                      <Button size="sm" variant="secondary" className="flex items-center w-full">
-                        <Plus className="mr-1 h-4 w-4" />
-                        Choose {category.label === "Memory" || category.label === "Storage" ? "" : "A"} {category.label}
-                      </Button>
-                    </Link>
-                  )}
-                </div>
-              )}
-            </div>
-          ))}
+                        ))}
+                        {allowsMultiple(category.id) && (
+                          <Link href={`/build/components/${category.id}`}>
+                            <Button size="sm" variant="outline" className="flex items-center w-full">
+                              <Plus className="mr-1 h-4 w-4" />
+                              Add Another {category.label}
+                            </Button>
+                          </Link>
+                        )}
+                      </div>
+                    ) : (
+                      <Link href={`/build/components/${category.id}`}>
+                        <Button size="sm" variant="secondary" className="flex items-center w-full">
+                          <Plus className="mr-1 h-4 w-4" />
+                          Choose {category.label === "Memory" || category.label === "Storage" ? "" : "A"} {category.label}
+                        </Button>
+                      </Link>
+                    )}
+                  </div>
+                )}
+              </div>
+            )
+          })}
 
           {/* Mobile retailer totals */}
           <div className="bg-card rounded-lg shadow-sm p-4 mt-6">
             <h3 className="font-medium mb-3">Retailer Totals</h3>
             <div className="space-y-2">
-              {[
-                { name: "Startech", total: totalStartech, icon: "ST", color: "bg-blue-900" },
-                { name: "Techland", total: totalTechland, icon: "TL", color: "bg-gray-900" },
-                { name: "UltraTech", total: totalUltraTech, icon: "UT", color: "bg-purple-900" },
-                { name: "Potaka IT", total: totalPotakaIT, icon: "PI", color: "bg-green-900" },
-                { name: "PC House", total: totalPCHouse, icon: "PC", color: "bg-red-900" },
-                { name: "Skyland", total: totalSkyland, icon: "SK", color: "bg-teal-900" },
-              ].map((retailer) => (
-                <div key={retailer.name} className="flex justify-between items-center py-2 border-b">
-                  <div className="flex items-center gap-2">
-                    <div
-                      className={`h-6 w-6 rounded ${retailer.color} flex items-center justify-center text-white text-xs`}
-                    >
-                      {retailer.icon}
+              {rankedShopTotals.map((total, index) => {
+                const retailer = retailerBadges.find((badge) => badge.name === total.retailer)!
+                // Shops that can't sell the whole build are listed after a divider
+                const startsIncomplete = !total.complete && (index === 0 || rankedShopTotals[index - 1].complete)
+
+                return (
+                  <div key={retailer.name}>
+                    {startsIncomplete && (
+                      <div className="text-xs text-muted-foreground pt-2">Missing or out-of-stock parts</div>
+                    )}
+                    <div className="flex justify-between items-center py-2 border-b">
+                      <div className="flex items-center gap-2">
+                        <div
+                          className={`h-6 w-6 rounded ${retailer.color} flex items-center justify-center text-white text-xs`}
+                        >
+                          {retailer.icon}
+                        </div>
+                        <span>{retailer.name}</span>
+                      </div>
+                      <RetailerTotalValue
+                        total={total}
+                        isCheapest={total.retailer === cheapestCompleteShop}
+                        className="text-right"
+                      />
                     </div>
-                    <span>{retailer.name}</span>
-                  </div>
-                  <div className="font-medium">
-                    {retailer.total > 0 ? `৳ ${retailer.total.toLocaleString()}` : "N/A"}
                   </div>
-                </div>
-              ))}
+                )
+              })}
             </div>
           </div>
         </div>
@@ -768,59 +1038,23 @@ export default function BuildPage() {
                 <th className="p-2 text-left font-medium text-xs">Component</th>
                 <th className="p-2 text-left font-medium text-xs">Selection</th>
                 <th className="p-2 text-left font-medium text-xs">Base</th>
-                <th className="p-2 text-left font-medium text-xs">
-                  <div className="flex items-center">
-                    <div className="h-5 w-5 rounded-full bg-blue-900 flex items-center justify-center text-white text-[10px] mr-1.5 shadow-sm">
-                      ST
-                    </div>
-                    <span>Startech</span>
-                  </div>
-                </th>
-                <th className="p-2 text-left font-medium text-xs">
-                  <div className="flex items-center">
-                    <div className="h-5 w-5 rounded-full bg-gray-900 flex items-center justify-center text-white text-[10px] mr-1.5 shadow-sm">
-                      TL
-                    </div>
-                    <span>Techland</span>
-                  </div>
-                </th>
-                <th className="p-2 text-left font-medium text-xs">
-                  <div className="flex items-center">
-                    <div className="h-5 w-5 rounded-full bg-purple-900 flex items-center justify-center text-white text-[10px] mr-1.5 shadow-sm">
-                      UT
-                    </div>
-                    <span>UltraTech</span>
-                  </div>
-                </th>
-                <th className="p-2 text-left font-medium text-xs">
-                  <div className="flex items-center">
-                    <div className="h-5 w-5 rounded-full bg-green-900 flex items-center justify-center text-white text-[10px] mr-1.5 shadow-sm">
-                      PI
-                    </div>
-                    <span>Potaka IT</span>
-                  </div>
-                </th>
-                <th className="p-2 text-left font-medium text-xs">
-                  <div className="flex items-center">
-                    <div className="h-5 w-5 rounded-full bg-red-900 flex items-center justify-center text-white text-[10px] mr-1.5 shadow-sm">
-                      PC
-                    </div>
-                    <span>PC House</span>
-                  </div>
-                </th>
-                <th className="p-2 text-left font-medium text-xs">
-                  <div className="flex items-center">
-                    <div className="h-5 w-5 rounded-full bg-teal-900 flex items-center justify-center text-white text-[10px] mr-1.5 shadow-sm">
-                      SK
+                {retailerBadges.map((retailer) => (
+                  <th key={retailer.name} className="p-2 text-left font-medium text-xs">
+                    <div className="flex items-center">
+                      <div
+                        className={`h-5 w-5 rounded-full ${retailer.color} flex items-center justify-center text-white text-[10px] mr-1.5 shadow-sm`}
+                      >
+                        {retailer.icon}
+                      </div>
+                      <span>{retailer.name}</span>
                     </div>
-                    <span>Skyland</span>
-                  </div>
-                </th>
+                  </th>
+                ))}
               </tr>
             </thead>
             <tbody>
-              {componentCategories.map((category) => (
-                <tr key={category.id} className="border-b">
+              {buildRows.map(({ category, item, prices, isFirst, isLast }) => (
+                <tr key={item ? item.url : category.id} className="border-b">
                   <td className="p-2">
                     <Link
                       href={`/build/components/${category.id}`}
@@ -829,6 +1063,15 @@ export default function BuildPage() {
                       <category.icon className="mr-1.5 h-3 w-3" />
                       <span className="text-xs">{category.label}</span>
                     </Link>
+                    {item && isLast && allowsMultiple(category.id) && (
+                      <Link
+                        href={`/build/components/${category.id}`}
+                        className="text-muted-foreground hover:text-primary flex items-center mt-1 text-[10px]"
+                      >
+                        <Plus className="mr-0.5 h-2.5 w-2.5" />
+                        Add another
+                      </Link>
+                    )}
                   </td>
                   <td className="p-2">
                     {loading ? (
@@ -839,16 +1082,11 @@ export default function BuildPage() {
                           <Skeleton className="h-2 w-16" />
                         </div>
                       </div>
-                    ) : selectedComponents[category.id] ? (
+                    ) : item ? (
                       <div className="flex items-start gap-2">
                         <div className="w-10 h-10 bg-white rounded relative flex-shrink-0">
-                          {selectedComponents[category.id]?.image ? (
-                            <Image
-                              src={selectedComponents[category.id]?.image || ""}
-                              alt={selectedComponents[category.id]?.name || ""}
-                              fill
-                              className="object-contain p-1"
-                            />
+                          {item.image ? (
+                            <Image src={item.image} alt={item.name} fill className="object-contain p-1" />
                           ) : (
                             <div className="flex items-center justify-center h-full text-muted-foreground text-xs">
                               No image
@@ -856,15 +1094,24 @@ export default function BuildPage() {
                           )}
                         </div>
                         <div className="flex-1">
-                          {selectedComponents[category.id] && (
-                            <ProductTooltip product={selectedComponents[category.id]!}>
-                              <div className="font-medium text-xs truncate max-w-[180px]">
-                                {truncateName(selectedComponents[category.id]?.name || "", 4)}
-                              </div>
-                            </ProductTooltip>
+                          <ProductTooltip product={item}>
+                            <div className="font-medium text-xs truncate max-w-[180px]">{truncateName(item.name, 4)}</div>
+                          </ProductTooltip>
+                          {!isPurchasable(item.availability) && (
+                            <AvailabilityBadge
+                              availability={item.availability}
+                              className="inline-block mt-1 px-1.5 py-0.5 text-[10px]"
+                            />
                           )}
+                          {isFirst && (
+                            <CategoryIssues
+                              issues={issuesFor(compatibilityIssues, category.id)}
+                              className="mt-1 max-w-[180px]"
+                            />
+                          )}
+                          {allowsMultiple(category.id) && renderQuantity(item)}
                           <div className="flex gap-1 mt-1">
-                            <Link href={`/build/components/${category.id}`}>
+                            <Link href={changeHref(item)}>
                               <Button variant="link" className="p-0 h-auto text-[10px] text-muted-foreground">
                                 Change
                               </Button>
@@ -872,17 +1119,17 @@ export default function BuildPage() {
                             <Button
                               variant="link"
                               className="p-0 h-auto text-[10px] text-red-500"
-                              onClick={() => removeComponent(category.id)}
+                              onClick={() => removeComponent(item!)}
                             >
                               Remove
                             </Button>
                             <Button
                               variant="link"
                               className="p-0 h-auto text-[10px] text-primary"
-                              onClick={() => refreshCrossSitePrices(category.id, selectedComponents[category.id]!)}
-                              disabled={crossSiteLoading[category.id]}
+                              onClick={() => refreshCrossSitePrices(item!)}
+                              disabled={crossSiteLoading[item.url]}
                             >
-                              {crossSiteLoading[category.id] ? (
+                              {crossSiteLoading[item.url] ? (
                                 <RefreshCw className="h-2 w-2 mr-0.5 animate-spin" />
                               ) : (
                                 <RefreshCw className="h-2 w-2 mr-0.5" />
@@ -905,311 +1152,22 @@ export default function BuildPage() {
                   <td className="p-2">
                     {loading ? (
                       <Skeleton className="h-5 w-16 ml-auto" />
-                    ) : selectedComponents[category.id] ? (
+                    ) : item ? (
                       <div className="text-right font-medium text-sm">
-                        {renderPrice(
-                          selectedComponents[category.id]?.price || "",
-                          selectedComponents[category.id]?.source || "",
+                        {renderPrice(item.price, item.source)}
+                        {item.quantity > 1 && (
+                          <div className="text-[10px] text-muted-foreground font-normal">× {item.quantity}</div>
                         )}
                       </div>
                     ) : (
                       <div className="text-right">-</div>
                     )}
                   </td>
-                  <td className="p-2">
-                    {loading ? (
-                      <Skeleton className="h-5 w-16" />
-                    ) : selectedComponents[category.id]?.source === "Startech" ? (
-                      <div className="flex flex-col space-y-1">
-                        <div className="font-medium text-sm text-right">
-                          {renderPrice(selectedComponents[category.id]?.price || "", "Startech")}
-                        </div>
-                        <div className="flex items-center justify-end gap-1 mt-1">
-                          <div className="px-1.5 py-0.5 bg-primary/10 text-xs rounded text-primary">Selected</div>
-                          <a href={selectedComponents[category.id]?.url} target="_blank" rel="noopener noreferrer">
-                            <Button variant="ghost" size="sm" className="h-5 px-1.5 text-xs">
-                              <ExternalLink className="h-3 w-3" />
-                            </Button>
-                          </a>
-                        </div>
-                      </div>
-                    ) : crossSitePrices[category.id]?.Startech ? (
-                      <div className="flex flex-col space-y-1">
-                        <div className="font-medium text-sm text-right">
-                          {renderPrice(crossSitePrices[category.id]?.Startech?.price || "", "Startech")}
-                        </div>
-                        <div className="flex items-center justify-end gap-1 mt-1">
-                          <Button
-                            variant="outline"
-                            size="sm"
-                            className="h-5 px-1.5 text-xs text-primary border-primary/30 hover:bg-primary/5 hover:text-primary hover:border-primary"
-                            onClick={() =>
-                              selectCrossSiteComponent(category.id, crossSitePrices[category.id]?.Startech!)
-                            }
-                          >
-                            <Check className="h-3 w-3 mr-0.5" />
-                            Select
-                          </Button>
-                          <a
-                            href={crossSitePrices[category.id]?.Startech?.url}
-                            target="_blank"
-                            rel="noopener noreferrer"
-                          >
-                            <Button variant="ghost" size="sm" className="h-5 px-1.5 text-xs">
-                              <ExternalLink className="h-3 w-3" />
-                            </Button>
-                          </a>
-                        </div>
-                      </div>
-                    ) : (
-                      <span className="text-muted-foreground text-sm text-right block">N/A</span>
-                    )}
-                  </td>
-                  <td className="p-2">
-                    {loading ? (
-                      <Skeleton className="h-5 w-16" />
-                    ) : selectedComponents[category.id]?.source === "Techland" ? (
-                      <div className="flex flex-col space-y-1">
-                        <div className="font-medium text-sm text-right">
-                          {renderPrice(selectedComponents[category.id]?.price || "", "Techland")}
-                        </div>
-                        <div className="flex items-center justify-end gap-1 mt-1">
-                          <div className="px-1.5 py-0.5 bg-primary/10 text-xs rounded text-primary">Selected</div>
-                          <a href={selectedComponents[category.id]?.url} target="_blank" rel="noopener noreferrer">
-                            <Button variant="ghost" size="sm" className="h-5 px-1.5 text-xs">
-                              <ExternalLink className="h-3 w-3" />
-                            </Button>
-                          </a>
-                        </div>
-                      </div>
-                    ) : crossSitePrices[category.id]?.Techland ? (
-                      <div className="flex flex-col space-y-1">
-                        <div className="font-medium text-sm text-right">
-                          {renderPrice(crossSitePrices[category.id]?.Techland?.price || "", "Techland")}
-                        </div>
-                        <div className="flex items-center justify-end gap-1 mt-1">
-                          <Button
-                            variant="outline"
-                            size="sm"
-                            className="h-5 px-1.5 text-xs text-primary border-primary/30 hover:bg-primary/5 hover:text-primary hover:border-primary"
-                            onClick={() =>
-                              selectCrossSiteComponent(category.id, crossSitePrices[category.id]?.Techland!)
-                            }
-                          >
-                            <Check className="h-3 w-3 mr-0.5" />
-                            Select
-                          </Button>
-                          <a
-                            href={crossSitePrices[category.id]?.Techland?.url}
-                            target="_blank"
-                            rel="noopener noreferrer"
-                          >
-                            <Button variant="ghost" size="sm" className="h-5 px-1.5 text-xs">
-                              <ExternalLink className="h-3 w-3" />
-                            </Button>
-                          </a>
-                        </div>
-                      </div>
-                    ) : (
-                      <span className="text-muted-foreground text-sm text-right block">N/A</span>
-                    )}
-                  </td>
-                  <td className="p-2">
-                    {loading ? (
-                      <Skeleton className="h-5 w-16" />
-                    ) : selectedComponents[category.id]?.source === "UltraTech" ? (
-                      <div className="flex flex-col space-y-1">
-                        <div className="font-medium text-sm text-right">
-                          {renderPrice(selectedComponents[category.id]?.price || "", "UltraTech")}
-                        </div>
-                        <div className="flex items-center justify-end gap-1 mt-1">
-                          <div className="px-1.5 py-0.5 bg-primary/10 text-xs rounded text-primary">Selected</div>
-                          <a href={selectedComponents[category.id]?.url} target="_blank" rel="noopener noreferrer">
-                            <Button variant="ghost" size="sm" className="h-5 px-1.5 text-xs">
-                              <ExternalLink className="h-3 w-3" />
-                            </Button>
-                          </a>
-                        </div>
-                      </div>
-                    ) : crossSitePrices[category.id]?.UltraTech ? (
-                      <div className="flex flex-col space-y-1">
-                        <div className="font-medium text-sm text-right">
-                          {renderPrice(crossSitePrices[category.id]?.UltraTech?.price || "", "UltraTech")}
-                        </div>
-                        <div className="flex items-center justify-end gap-1 mt-1">
-                          <Button
-                            variant="outline"
-                            size="sm"
-                            className="h-5 px-1.5 text-xs text-primary border-primary/30 hover:bg-primary/5 hover:text-primary hover:border-primary"
-                            onClick={() =>
-                              selectCrossSiteComponent(category.id, crossSitePrices[category.id]?.UltraTech!)
-                            }
-                          >
-                            <Check className="h-3 w-3 mr-0.5" />
-                            Select
-                          </Button>
-                          <a
-                            href={crossSitePrices[category.id]?.UltraTech?.url}
-                            target="_blank"
-                            rel="noopener noreferrer"
-                          >
-                            <Button variant="ghost" size="sm" className="h-5 px-1.5 text-xs">
-                              <ExternalLink className="h-3 w-3" />
-                            </Button>
-                          </a>
-                        </div>
-                      </div>
-                    ) : (
-                      <span className="text-muted-foreground text-sm text-right block">N/A</span>
-                    )}
-                  </td>
-                  <td className="p-2">
-                    {loading ? (
-                      <Skeleton className="h-5 w-16" />
-                    ) : selectedComponents[category.id]?.source === "Potaka IT" ? (
-                      <div className="flex flex-col space-y-1">
-                        <div className="font-medium text-sm text-right">
-                          {renderPrice(selectedComponents[category.id]?.price || "", "Potaka IT")}
-                        </div>
-                        <div className="flex items-center justify-end gap-1 mt-1">
-                          <div className="px-1.5 py-0.5 bg-primary/10 text-xs rounded text-primary">Selected</div>
-                          <a href={selectedComponents[category.id]?.url} target="_blank" rel="noopener noreferrer">
-                            <Button variant="ghost" size="sm" className="h-5 px-1.5 text-xs">
-                              <ExternalLink className="h-3 w-3" />
-                            </Button>
-                          </a>
-                        </div>
-                      </div>
-                    ) : crossSitePrices[category.id]?.["Potaka IT"] ? (
-                      <div className="flex flex-col space-y-1">
-                        <div className="font-medium text-sm text-right">
-                          {renderPrice(crossSitePrices[category.id]?.["Potaka IT"]?.price || "", "Potaka IT")}
-                        </div>
-                        <div className="flex items-center justify-end gap-1 mt-1">
-                          <Button
-                            variant="outline"
-                            size="sm"
-                            className="h-5 px-1.5 text-xs text-primary border-primary/30 hover:bg-primary/5 hover:text-primary hover:border-primary"
-                            onClick={() =>
-                              selectCrossSiteComponent(category.id, crossSitePrices[category.id]?.["Potaka IT"]!)
-                            }
-                          >
-                            <Check className="h-3 w-3 mr-0.5" />
-                            Select
-                          </Button>
-                          <a
-                            href={crossSitePrices[category.id]?.["Potaka IT"]?.url}
-                            target="_blank"
-                            rel="noopener noreferrer"
-                          >
-                            <Button variant="ghost" size="sm" className="h-5 px-1.5 text-xs">
-                              <ExternalLink className="h-3 w-3" />
-                            </Button>
-                          </a>
-                        </div>
-                      </div>
-                    ) : (
-                      <span className="text-muted-foreground text-sm text-right block">N/A</span>
-                    )}
-                  </td>
-                  <td className="p-2">
-                    {loading ? (
-                      <Skeleton className="h-5 w-16" />
-                    ) : selectedComponents[category.id]?.source === "PC House" ? (
-                      <div className="flex flex-col space-y-1">
-                        <div className="font-medium text-sm text-right">
-                          {renderPrice(selectedComponents[category.id]?.price || "", "PC House")}
-                        </div>
-                        <div className="flex items-center justify-end gap-1 mt-1">
-                          <div className="px-1.5 py-0.5 bg-primary/10 text-xs rounded text-primary">Selected</div>
-                          <a href={selectedComponents[category.id]?.url} target="_blank" rel="noopener noreferrer">
-                            <Button variant="ghost" size="sm" className="h-5 px-1.5 text-xs">
-                              <ExternalLink className="h-3 w-3" />
-                            </Button>
-                          </a>
-                        </div>
-                      </div>
-                    ) : crossSitePrices[category.id]?.["PC House"] ? (
-                      <div className="flex flex-col space-y-1">
-                        <div className="font-medium text-sm text-right">
-                          {renderPrice(crossSitePrices[category.id]?.["PC House"]?.price || "", "PC House")}
-                        </div>
-                        <div className="flex items-center justify-end gap-1 mt-1">
-                          <Button
-                            variant="outline"
-                            size="sm"
-                            className="h-5 px-1.5 text-xs text-primary border-primary/30 hover:bg-primary/5 hover:text-primary hover:border-primary"
-                            onClick={() =>
-                              selectCrossSiteComponent(category.id, crossSitePrices[category.id]?.["PC House"]!)
-                            }
-                          >
-                            <Check className="h-3 w-3 mr-0.5" />
-                            Select
-                          </Button>
-                          <a
-                            href={crossSitePrices[category.id]?.["PC House"]?.url}
-                            target="_blank"
-                            rel="noopener noreferrer"
-                          >
-                            <Button variant="ghost" size="sm" className="h-5 px-1.5 text-xs">
-                              <ExternalLink className="h-3 w-3" />
-                            </Button>
-                          </a>
-                        </div>
-                      </div>
-                    ) : (
-                      <span className="text-muted-foreground text-sm text-right block">N/A</span>
-                    )}
-                  </td>
-                  <td className="p-2">
-                    {loading ? (
-                      <Skeleton className="h-5 w-16" />
-                    ) : selectedComponents[category.id]?.source === "Skyland" ? (
-                      <div className="flex flex-col space-y-1">
-                        <div className="font-medium text-sm text-right">
-                          {renderPrice(selectedComponents[category.id]?.price || "", "Skyland")}
-                        </div>
-                        <div className="flex items-center justify-end gap-1 mt-1">
-                          <div className="px-1.5 py-0.5 bg-primary/10 text-xs rounded text-primary">Selected</div>
-                          <a href={selectedComponents[category.id]?.url} target="_blank" rel="noopener noreferrer">
-                            <Button variant="ghost" size="sm" className="h-5 px-1.5 text-xs">
-                              <ExternalLink className="h-3 w-3" />
-                            </Button>
-                          </a>
-                        </div>
-                      </div>
-                    ) : crossSitePrices[category.id]?.["Skyland"] ? (
-                      <div className="flex flex-col space-y-1">
-                        <div className="font-medium text-sm text-right">
-                          {renderPrice(crossSitePrices[category.id]?.["Skyland"]?.price || "", "Skyland")}
-                        </div>
-                        <div className="flex items-center justify-end gap-1 mt-1">
-                          <Button
-                            variant="outline"
-                            size="sm"
-                            className="h-5 px-1.5 text-xs text-primary border-primary/30 hover:bg-primary/5 hover:text-primary hover:border-primary"
-                            onClick={() =>
-                              selectCrossSiteComponent(category.id, crossSitePrices[category.id]?.["Skyland"]!)
-                            }
-                          >
-                            <Check className="h-3 w-3 mr-0.5" />
-                            Select
-                          </Button>
-                          <a
-                            href={crossSitePrices[category.id]?.["Skyland"]?.url}
-                            target="_blank"
-                            rel="noopener noreferrer"
-                          >
-                            <Button variant="ghost" size="sm" className="h-5 px-1.5 text-xs">
-                              <ExternalLink className="h-3 w-3" />
-                            </Button>
-                          </a>
-                        </div>
-                      </div>
-                    ) : (
-                      <span className="text-muted-foreground text-sm text-right block">N/A</span>
-                    )}
-                  </td>
+                  {retailerBadges.map((retailer) => (
+                    <td key={retailer.name} className="p-2">
+                      {loading ? <Skeleton className="h-5 w-16" /> : renderRetailerCell(retailer.name, item, prices)}
+                    </td>
+                  ))}
                 </tr>
               ))}
             </tbody>
@@ -1221,79 +1179,52 @@ export default function BuildPage() {
                 <td className="p-2">
                   {loading ? (
                     <Skeleton className="h-6 w-20 ml-auto" />
-                  ) : totalBase > 0 ? (
-                    <div className="font-bold text-base text-primary text-right">৳ {totalBase.toLocaleString()}</div>
-                  ) : (
-                    <span className="text-muted-foreground text-right block">N/A</span>
-                  )}
-                </td>
-                <td className="p-2">
-                  {loading ? (
-                    <Skeleton className="h-6 w-20 ml-auto" />
-                  ) : totalStartech > 0 ? (
-                    <div className="font-bold text-base text-primary text-right">
-                      ৳ {totalStartech.toLocaleString()}
-                    </div>
-                  ) : (
-                    <span className="text-muted-foreground text-right block">N/A</span>
-                  )}
-                </td>
-                <td className="p-2">
-                  {loading ? (
-                    <Skeleton className="h-6 w-20 ml-auto" />
-                  ) : totalTechland > 0 ? (
-                    <div className="font-bold text-base text-primary text-right">
-                      ৳ {totalTechland.toLocaleString()}
-                    </div>
-                  ) : (
-                    <span className="text-muted-foreground text-right block">N/A</span>
-                  )}
-                </td>
-                <td className="p-2">
-                  {loading ? (
-                    <Skeleton className="h-6 w-20 ml-auto" />
-                  ) : totalUltraTech > 0 ? (
-                    <div className="font-bold text-base text-primary text-right">
-                      ৳ {totalUltraTech.toLocaleString()}
-                    </div>
-                  ) : (
-                    <span className="text-muted-foreground text-right block">N/A</span>
-                  )}
-                </td>
-                <td className="p-2">
-                  {loading ? (
-                    <Skeleton className="h-6 w-20 ml-auto" />
-                  ) : totalPotakaIT > 0 ? (
-                    <div className="font-bold text-base text-primary text-right">
-                      ৳ {totalPotakaIT.toLocaleString()}
-                    </div>
-                  ) : (
-                    <span className="text-muted-foreground text-right block">N/A</span>
-                  )}
-                </td>
-                <td className="p-2">
-                  {loading ? (
-                    <Skeleton className="h-6 w-20 ml-auto" />
-                  ) : totalPCHouse > 0 ? (
-                    <div className="font-bold text-base text-primary text-right">৳ {totalPCHouse.toLocaleString()}</div>
-                  ) : (
-                    <span className="text-muted-foreground text-right block">N/A</span>
-                  )}
-                </td>
-                <td className="p-2">
-                  {loading ? (
-                    <Skeleton className="h-6 w-20 ml-auto" />
-                  ) : totalSkyland > 0 ? (
-                    <div className="font-bold text-base text-primary text-right">৳ {totalSkyland.toLocaleString()}</div>
+                  ) : baseTotal > 0 ? (
+                    <div className="font-bold text-base text-primary text-right">{formatAmount(baseTotal)}</div>
                   ) : (
                     <span className="text-muted-foreground text-right block">N/A</span>
                   )}
                 </td>
+                {shopTotals.map((total) => (
+                  <td key={total.retailer} className="p-2 align-top">
+                    {loading ? (
+                      <Skeleton className="h-6 w-20 ml-auto" />
+                    ) : (
+                      <RetailerTotalValue
+                        total={total}
+                        isCheapest={total.retailer === cheapestCompleteShop}
+                        className="text-right"
+                      />
+                    )}
+                  </td>
+                ))}
               </tr>
             </tfoot>
           </table>
         </div>
       </div>
+
+      <SaveBuildDialog
+        open={saveDialogOpen}
+        onOpenChange={setSaveDialogOpen}
+        active={activeBuild}
+        onSave={handleSaveBuild}
+      />
+      <BuildLibraryDialog
+        open={libraryOpen}
+        onOpenChange={setLibraryOpen}
+        library={library}
+        activeId={activeBuildId}
+        onOpen={openSavedBuild}
+        onNew={startNewBuild}
+        onRename={(id, name) => updateLibrary(renameInLibrary(library, id, name))}
+        onDuplicate={(id) => updateLibrary(duplicateInLibrary(library, id)[0])}
+        onDelete={deleteSavedBuild}
+      />
+      <BuildGeneratorDialog open={generatorOpen} onOpenChange={setGeneratorOpen} onOpenBuild={openGeneratedBuild} />
+      <PurchaseChecklistDialog open={checklistOpen} onOpenChange={setChecklistOpen} build={selectedComponents} />
+      <ExportBuildDialog open={exportOpen} onOpenChange={setExportOpen} build={selectedComponents} />
+      <ImportBuildDialog open={importOpen} onOpenChange={setImportOpen} onImport={openImportedBuild} />
     </div>
   )
 }
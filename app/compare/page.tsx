@@ -8,12 +8,15 @@ import { ArrowLeft, X } from "lucide-react"
 import { ThemeToggle } from "@/components/theme-toggle"
 import { SiteHeader } from "@/components/site-header"
 import { AttentionBanner } from "@/components/attention-banner"
+import { AvailabilityBadge } from "@/components/availability-badge"
+import { toAvailability, type Availability } from "@/lib/availability"
+import { formatAmount, formatPrice, toPrice, type Price } from "@/lib/price"
 
 interface Product {
   name: string
-  price: string
+  price: Price
   image: string
-  availability: string
+  availability: Availability
   source: string
   url: string
 }
@@ -25,7 +28,15 @@ export default function ComparePage() {
   useEffect(() => {
     const savedCompareList = localStorage.getItem("compareList")
     if (savedCompareList) {
-      setCompareList(JSON.parse(savedCompareList))
+      // Entries saved before prices were structured still hold price strings
+      const parsedCompareList: Product[] = JSON.parse(savedCompareList)
+      setCompareList(
+        parsedCompareList.map((product) => ({
+          ...product,
+          price: toPrice(product.price),
+          availability: toAvailability(product.availability),
+        })),
+      )
     }
   }, [])
 
@@ -38,31 +49,20 @@ export default function ComparePage() {
     setCompareList(compareList.filter((item) => !(item.name === product.name && item.source === product.source)))
   }
 
-  // Function to determine if a product is in stock based on price
-  const isInStock = (price: string): boolean => {
-    // Check if the price contains any numeric characters
-    return /[0-9]/.test(price)
-  }
-
   // Function to handle price display
-  const renderPrice = (price: string) => {
-    // Check if price contains multiple prices (e.g., "৳ 12,500 ৳ 13,000")
-    if (price.includes("৳") && price.split("৳").length > 2) {
-      const prices = price.split("৳").filter((p) => p.trim())
-
-      // If we have at least two prices
-      if (prices.length >= 2) {
-        return (
-          <div>
-            <p className="font-bold">৳{prices[0].trim()}</p>
-            <p className="text-sm text-muted-foreground line-through">৳{prices[1].trim()}</p>
-          </div>
-        )
-      }
+  const renderPrice = (price: Price) => {
+    // Show the struck-through regular price next to a discounted one
+    if (price.current !== null && price.regular !== null) {
+      return (
+        <div>
+          <p className="font-bold">{formatAmount(price.current)}</p>
+          <p className="text-sm text-muted-foreground line-through">{formatAmount(price.regular)}</p>
+        </div>
+      )
     }
 
     // Regular price display
-    return <span className="font-bold">{price}</span>
+    return <span className="font-bold">{formatPrice(price)}</span>
   }
 
   // For the empty state:
@@ -127,15 +127,7 @@ export default function ComparePage() {
           <div>
             <h3 className="font-medium text-sm mb-1">{product.name}</h3>
             <div className="flex items-center gap-2 mb-2">
-              <span
-                className={`px-2 py-0.5 rounded text-xs font-medium ${
-                  isInStock(product.price)
-                    ? "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-100"
-                    : "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-100"
-                }`}
-              >
-                {isInStock(product.price) ? "In Stock" : "Out of Stock"}
-              </span>
+              <AvailabilityBadge availability={product.availability} className="py-0.5" />
               <div>{renderPrice(product.price)}</div>
             </div>
           </div>
@@ -242,15 +234,7 @@ export default function ComparePage() {
                     </TableCell>
                     <TableCell className="font-medium">{product.name}</TableCell>
                     <TableCell>
-                      <span
-                        className={`px-2 py-1 rounded text-sm font-medium ${
-                          isInStock(product.price)
-                            ? "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-100"
-                            : "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-100"
-                        }`}
-                      >
-                        {isInStock(product.price) ? "In Stock" : "Out of Stock"}
-                      </span>
+                      <AvailabilityBadge availability={product.availability} className="text-sm" />
                     </TableCell>
                     <TableCell>{renderPrice(product.price)}</TableCell>
                     <TableCell className="text-right">
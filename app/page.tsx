@@ -18,18 +18,23 @@ import {
   MonitorIcon,
   HardDrive,
   CpuIcon as Gpu,
-  ChevronLeft,
-  ChevronRight,
+  ChevronDown,
   Loader2,
 } from "lucide-react"
 import { SiteHeader } from "@/components/site-header"
 import { AttentionBanner } from "@/components/attention-banner"
+import { AvailabilityBadge } from "@/components/availability-badge"
+import { RetailerStatusBar } from "@/components/retailer-status"
+import { toAvailability, type Availability } from "@/lib/availability"
+import { readNdjson } from "@/lib/ndjson"
+import { formatAmount, formatPrice, toPrice, type Price } from "@/lib/price"
+import type { RetailerReport, RetailerStreamLine } from "@/lib/retailers/types"
 
 interface Product {
   name: string
-  price: string
+  price: Price
   image: string
-  availability: string
+  availability: Availability
   source: string
   url: string
 }
@@ -43,16 +48,31 @@ export default function Home() {
   const [compareList, setCompareList] = useState<Product[]>([])
   const [page, setPage] = useState(1)
   const [hasMore, setHasMore] = useState(false)
+  const [loadingMore, setLoadingMore] = useState(false)
+  // Query the current results belong to, so "Load more" keeps paging it after the input is edited
+  const [searchedQuery, setSearchedQuery] = useState("")
+  // Per-shop status from the last response, including whether each shop has another page
+  const [retailerReports, setRetailerReports] = useState<Record<string, RetailerReport & { hasMore: boolean }>>({})
   const [productsPerPage] = useState(20) // Number of products to show per retailer
   const router = useRouter()
 
   // Load compare list from localStorage on component mount
   const initialQueryProcessed = React.useRef(false)
+  // The results stream in progress; a new search or page cancels it so its batches can't mix into the new results
+  const streamController = React.useRef<AbortController | null>(null)
 
   useEffect(() => {
     const savedCompareList = localStorage.getItem("compareList")
     if (savedCompareList) {
-      setCompareList(JSON.parse(savedCompareList))
+      // Entries saved before prices were structured still hold price strings
+      const parsedCompareList: Product[] = JSON.parse(savedCompareList)
+      setCompareList(
+        parsedCompareList.map((product) => ({
+          ...product,
+          price: toPrice(product.price),
+          availability: toAvailability(product.availability),
+        })),
+      )
     }
 
     // Check for query parameter in URL
@@ -77,6 +97,43 @@ export default function Home() {
     localStorage.setItem("compareList", JSON.stringify(compareList))
   }, [compareList])
 
+  useEffect(() => () => streamController.current?.abort(), [])
+
+  const startStream = () => {
+    streamController.current?.abort()
+    streamController.current = new AbortController()
+    return streamController.current
+  }
+
+  // Request one page of results as NDJSON, merging each retailer's batch in as soon as it arrives
+  const streamProducts = async (params: string, signal: AbortSignal) => {
+    const response = await fetch(`/api/products?${params}&limit=${productsPerPage}&stream=1`, { signal })
+
+    if (!response.ok) {
+      throw new Error("Failed to fetch products")
+    }
+
+    await readNdjson<RetailerStreamLine<Product>>(response, (line) => {
+      if (signal.aborted) return
+
+      if (line.type === "batch") {
+        // Append to the existing results, skipping listings we already show
+        setProducts((prev) => {
+          const seen = new Set(prev.map((product) => product.url))
+          return [...prev, ...line.items.filter((product) => !seen.has(product.url))]
+        })
+        setRetailerReports((prev) => ({
+          ...prev,
+          [line.retailer]: { ...line.report, hasMore: Boolean(line.hasMore) },
+        }))
+      } else if (line.type === "done") {
+        setHasMore(Boolean(line.hasMore))
+      } else {
+        throw new Error(line.message)
+      }
+    })
+  }
+
   const searchProducts = async (resetPage = true, searchQuery = query) => {
     if (!searchQuery.trim()) return
 
@@ -86,40 +143,54 @@ export default function Home() {
 
     setLoading(true)
     setError("")
+    setProducts([])
+    setRetailerReports({})
+    setHasMore(false)
+    setSearchedQuery(searchQuery)
 
+    const controller = startStream()
     try {
-      const response = await fetch(`/api/products?query=${encodeURIComponent(searchQuery)}&limit=${productsPerPage}`)
-
-      if (!response.ok) {
-        throw new Error("Failed to fetch products")
-      }
-
-      const data = await response.json()
-      setProducts(data.products)
-
-      // Set hasMore based on whether we got a full page of results
-      setHasMore(data.products.length >= productsPerPage * 6) // 6 retailers
+      await streamProducts(`query=${encodeURIComponent(searchQuery)}`, controller.signal)
     } catch (err) {
+      if (controller.signal.aborted) return
       setError("An error occurred while fetching products")
       console.error(err)
     } finally {
-      setLoading(false)
+      if (streamController.current === controller) setLoading(false)
     }
   }
 
   const loadMoreProducts = async () => {
     const nextPage = page + 1
-    setPage(nextPage)
 
-    // You could implement pagination on the backend and fetch more products here
-    // For now, we'll just simulate it by showing a loading state
-    setLoading(true)
+    // Only ask the retailers that reported another page
+    const sources = Object.entries(retailerReports)
+      .filter(([, retailer]) => retailer.hasMore)
+      .map(([name]) => name)
+
+    if (sources.length === 0) {
+      setHasMore(false)
+      return
+    }
+
+    setLoadingMore(true)
+    setError("")
 
-    // Simulate loading delay
-    setTimeout(() => {
-      setLoading(false)
-      setHasMore(false) // No more products after this page
-    }, 1000)
+    const controller = startStream()
+    try {
+      await streamProducts(
+        `query=${encodeURIComponent(searchedQuery)}&page=${nextPage}&sources=${encodeURIComponent(sources.join(","))}`,
+        controller.signal,
+      )
+      setPage(nextPage)
+    } catch (err) {
+      if (controller.signal.aborted) return
+      setError("An error occurred while loading more products")
+      console.error(err)
+    } finally {
+      // A new search cancels this page, so its spinner goes either way
+      setLoadingMore(false)
+    }
   }
 
   const addToCompare = (e: React.MouseEvent, product: Product) => {
@@ -210,6 +281,8 @@ export default function Home() {
 
       {/* Results section */}
       <div className="container mx-auto py-8 px-4 pb-24">
+        <RetailerStatusBar reports={retailerReports} className="mb-6" />
+
         {loading && products.length === 0 ? (
           <div className="space-y-12">
             {/* Skeleton for StarTech Products */}
@@ -367,34 +440,22 @@ export default function Home() {
               </div>
             )}
 
-            {/* Pagination controls */}
-            {hasMore && (
+            {/* Load more */}
+            {hasMore && !loadingMore && (
               <div className="flex justify-center mt-8">
-                <div className="flex items-center gap-2">
-                  <Button
-                    variant="outline"
-                    size="sm"
-                    onClick={() => setPage(Math.max(1, page - 1))}
-                    disabled={page === 1 || loading}
-                  >
-                    <ChevronLeft className="h-4 w-4 mr-1" />
-                    Previous
-                  </Button>
-                  <span className="text-sm text-muted-foreground px-2">Page {page}</span>
-                  <Button variant="outline" size="sm" onClick={loadMoreProducts} disabled={!hasMore || loading}>
-                    Next
-                    <ChevronRight className="h-4 w-4 ml-1" />
-                  </Button>
-                </div>
+                <Button variant="outline" onClick={loadMoreProducts} disabled={loading}>
+                  Load more
+                  <ChevronDown className="h-4 w-4 ml-1" />
+                </Button>
               </div>
             )}
 
-            {/* Loading indicator for pagination */}
-            {loading && products.length > 0 && (
+            {/* Loading indicator for pagination, or for shops that haven't answered yet */}
+            {(loading || loadingMore) && (
               <div className="flex justify-center mt-6">
                 <div className="flex items-center gap-2 text-muted-foreground">
                   <Loader2 className="h-4 w-4 animate-spin" />
-                  <span>Loading more products...</span>
+                  <span>{loading ? "Waiting for more shops..." : "Loading more products..."}</span>
                 </div>
               </div>
             )}
@@ -523,23 +584,20 @@ interface ProductCardProps {
 function ProductCard({ product, addToCompare }: ProductCardProps) {
   // Function to handle price display
   const renderPrice = () => {
-    // Check if price contains multiple prices (e.g., "৳ 12,500 ৳ 13,000")
-    if (product.price.includes("৳") && product.price.split("৳").length > 2) {
-      const prices = product.price.split("৳").filter((p) => p.trim())
-
-      // If we have at least two prices
-      if (prices.length >= 2) {
-        return (
-          <div>
-            <p className="text-base md:text-lg font-bold">৳{prices[0].trim()}</p>
-            <p className="text-xs md:text-sm text-muted-foreground line-through">৳{prices[1].trim()}</p>
-          </div>
-        )
-      }
+    const { current, regular } = product.price
+
+    // Show the struck-through regular price next to a discounted one
+    if (current !== null && regular !== null) {
+      return (
+        <div>
+          <p className="text-base md:text-lg font-bold">{formatAmount(current)}</p>
+          <p className="text-xs md:text-sm text-muted-foreground line-through">{formatAmount(regular)}</p>
+        </div>
+      )
     }
 
     // Regular price display
-    return <p className="text-base md:text-lg font-bold">{product.price}</p>
+    return <p className="text-base md:text-lg font-bold">{formatPrice(product.price)}</p>
   }
 
   return (
@@ -569,9 +627,13 @@ function ProductCard({ product, addToCompare }: ProductCardProps) {
             </div>
           </div>
           {/* Availability badge */}
-          {product.availability === "In Stock" && (
-            <div className="absolute top-2 right-2 bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-100 text-xs px-2 py-1 rounded-md">
-              In Stock
+          {product.availability !== "out-of-stock" && (
+            <AvailabilityBadge availability={product.availability} className="absolute top-2 right-2" />
+          )}
+          {/* Discount badge */}
+          {product.price.discountPercent !== null && (
+            <div className="absolute bottom-2 left-2 bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-100 text-xs px-2 py-1 rounded-md">
+              -{product.price.discountPercent}%
             </div>
           )}
         </div>
@@ -0,0 +1,24 @@
+import { cn } from "@/lib/utils"
+import { AVAILABILITY_LABELS, type Availability } from "@/lib/availability"
+
+const availabilityStyles: Record<Availability, string> = {
+  "in-stock": "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-100",
+  "limited-stock": "bg-lime-100 text-lime-800 dark:bg-lime-900 dark:text-lime-100",
+  "pre-order": "bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-100",
+  upcoming: "bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-100",
+  "call-for-price": "bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-100",
+  "out-of-stock": "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-100",
+}
+
+interface AvailabilityBadgeProps {
+  availability: Availability
+  className?: string
+}
+
+export function AvailabilityBadge({ availability, className }: AvailabilityBadgeProps) {
+  return (
+    <span className={cn("text-xs px-2 py-1 rounded-md font-medium", availabilityStyles[availability], className)}>
+      {AVAILABILITY_LABELS[availability]}
+    </span>
+  )
+}
@@ -0,0 +1,227 @@
+"use client"
+
+import { useState } from "react"
+import { Check, Loader2, Wand2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { AvailabilityBadge } from "@/components/availability-badge"
+import { buildItems } from "@/lib/build"
+import {
+  budgetSplit,
+  generateBuild,
+  USE_CASES,
+  type GeneratedBuild,
+  type GeneratorOptions,
+  type UseCase,
+} from "@/lib/build-generator"
+import { formatAmount, formatPrice } from "@/lib/price"
+import { COMPONENT_LABELS, type Component, type ComponentType } from "@/lib/retailers/types"
+
+// Listings fetched per shop and category to choose from
+const CANDIDATE_LIMIT = 40
+
+function categoryLabels(types: ComponentType[]): string {
+  return types.map((type) => COMPONENT_LABELS[type]).join(", ")
+}
+
+interface BuildGeneratorDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onOpenBuild: (generated: GeneratedBuild, name: string) => void
+}
+
+// "Build for me": pick a budget and a use case, and get a complete build to tweak in the builder
+export function BuildGeneratorDialog({ open, onOpenChange, onOpenBuild }: BuildGeneratorDialogProps) {
+  const [budget, setBudget] = useState("80000")
+  const [useCase, setUseCase] = useState<UseCase>("gaming-1080p")
+  const [includeMonitor, setIncludeMonitor] = useState(false)
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null)
+  const [result, setResult] = useState<GeneratedBuild | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  // Categories whose listings couldn't be loaded for the current result
+  const [failedTypes, setFailedTypes] = useState<ComponentType[]>([])
+
+  const budgetAmount = Number(budget)
+  const options: GeneratorOptions = { budget: budgetAmount, useCase, includeMonitor }
+
+  const generate = async () => {
+    const types = Object.keys(budgetSplit(options)) as ComponentType[]
+    setResult(null)
+    setError(null)
+    setProgress({ done: 0, total: types.length })
+
+    try {
+      // Listings per category, or null when they couldn't be loaded
+      const loaded = await Promise.all(
+        types.map(async (type): Promise<[ComponentType, Component[] | null]> => {
+          try {
+            const response = await fetch(`/api/components?type=${type}&limit=${CANDIDATE_LIMIT}`)
+            if (!response.ok) throw new Error(`Failed to fetch ${type} listings: ${response.status}`)
+            const data = await response.json()
+            return [type, data.components || []]
+          } catch (error) {
+            console.error(`Error fetching ${type} listings:`, error)
+            return [type, null]
+          } finally {
+            setProgress((prev) => prev && { ...prev, done: prev.done + 1 })
+          }
+        }),
+      )
+
+      const candidates: Partial<Record<ComponentType, Component[]>> = Object.fromEntries(
+        loaded.filter(([, components]) => components),
+      )
+      const failed = loaded.filter(([, components]) => !components).map(([type]) => type)
+
+      const generated = generateBuild(options, candidates)
+      if (buildItems(generated.build).length === 0) {
+        setError("No listings could be loaded right now. Please try again in a moment.")
+      } else {
+        // Categories that failed to load are reported as such, not as having nothing suitable
+        setResult({ ...generated, unfilled: generated.unfilled.filter((type) => !failed.includes(type)) })
+        setFailedTypes(failed)
+      }
+    } catch (error) {
+      console.error("Error generating build:", error)
+      setError("Something went wrong while fetching parts. Please try again.")
+    } finally {
+      setProgress(null)
+    }
+  }
+
+  const openInBuilder = () => {
+    if (!result) return
+    onOpenBuild(result, `${USE_CASES[useCase].label} build for ${formatAmount(budgetAmount)}`)
+    setResult(null)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[640px] max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Build for Me</DialogTitle>
+          <DialogDescription>
+            Set a budget and what the PC is for, and we&apos;ll put together a compatible build from today&apos;s
+            listings, preferring parts in stock.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <label htmlFor="generator-budget" className="text-sm font-medium">
+              Budget (BDT)
+            </label>
+            <Input
+              id="generator-budget"
+              type="number"
+              min={10000}
+              step={5000}
+              value={budget}
+              onChange={(e) => setBudget(e.target.value)}
+              className="mt-1"
+            />
+          </div>
+
+          <div>
+            <div className="text-sm font-medium mb-1">Use case</div>
+            <div className="flex flex-wrap gap-2">
+              {(Object.keys(USE_CASES) as UseCase[]).map((id) => (
+                <Button
+                  key={id}
+                  variant={useCase === id ? "default" : "outline"}
+                  size="sm"
+                  onClick={() => setUseCase(id)}
+                >
+                  {USE_CASES[id].label}
+                </Button>
+              ))}
+            </div>
+          </div>
+
+          <Button
+            variant={includeMonitor ? "default" : "outline"}
+            size="sm"
+            onClick={() => setIncludeMonitor(!includeMonitor)}
+          >
+            Include a monitor
+            {includeMonitor && <Check className="ml-2 h-3 w-3" />}
+          </Button>
+
+          {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+          {result && (
+            <div className="border rounded-md">
+              <ul className="divide-y text-sm">
+                {buildItems(result.build).map((item) => (
+                  <li key={item.url} className="p-2 flex items-center justify-between gap-3">
+                    <div className="min-w-0">
+                      <div className="truncate" title={item.name}>
+                        {item.name}
+                      </div>
+                      <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                        {item.source}
+                        <AvailabilityBadge availability={item.availability} />
+                      </div>
+                    </div>
+                    <div className="font-medium whitespace-nowrap">{formatPrice(item.price)}</div>
+                  </li>
+                ))}
+              </ul>
+              <div className="p-2 border-t flex justify-between items-center text-sm">
+                <span className="font-medium">Total</span>
+                <span
+                  className={
+                    result.total > budgetAmount ? "font-bold text-red-600 dark:text-red-400" : "font-bold text-primary"
+                  }
+                >
+                  {formatAmount(result.total)}
+                </span>
+              </div>
+              {(result.total > budgetAmount || result.unfilled.length > 0 || failedTypes.length > 0) && (
+                <div className="px-2 pb-2 text-xs text-amber-600 dark:text-amber-400 space-y-0.5">
+                  {result.total > budgetAmount && <p>The cheapest compatible parts come to more than your budget.</p>}
+                  {failedTypes.length > 0 && (
+                    <p>
+                      Couldn&apos;t load listings for: {categoryLabels(failedTypes)}. Try again, or pick these in the
+                      builder.
+                    </p>
+                  )}
+                  {result.unfilled.length > 0 && (
+                    <p>
+                      No suitable listing was found for: {categoryLabels(result.unfilled)}. Pick these in the builder.
+                    </p>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={generate} disabled={!!progress || !(budgetAmount > 0)}>
+            {progress ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Fetching parts ({progress.done}/{progress.total})
+              </>
+            ) : (
+              <>
+                <Wand2 className="mr-2 h-4 w-4" />
+                {result ? "Generate Again" : "Generate Build"}
+              </>
+            )}
+          </Button>
+          {result && <Button onClick={openInBuilder}>Open in Builder</Button>}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
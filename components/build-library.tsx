@@ -0,0 +1,246 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Check, Copy, FolderOpen, Pencil, Plus, Trash2, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { buildItems, buildTotal } from "@/lib/build"
+import type { SavedBuild } from "@/lib/build-library"
+import { formatAmount } from "@/lib/price"
+import { cn } from "@/lib/utils"
+
+interface SaveBuildDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  // The library entry the working build was opened from, if any
+  active: SavedBuild | null
+  onSave: (name: string, asNew: boolean) => void
+}
+
+// Name the working build and save it to the library, or save changes to the entry it came from
+export function SaveBuildDialog({ open, onOpenChange, active, onSave }: SaveBuildDialogProps) {
+  const [name, setName] = useState("")
+
+  useEffect(() => {
+    if (open) setName(active?.name ?? "")
+  }, [open, active])
+
+  const save = (asNew: boolean) => {
+    onSave(name, asNew)
+    onOpenChange(false)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>Save Build</DialogTitle>
+          <DialogDescription>
+            {active
+              ? "Save changes to this build, or keep it and save a copy."
+              : "Give this build a name to find it later."}
+          </DialogDescription>
+        </DialogHeader>
+        <Input
+          placeholder="e.g. 80k gaming build"
+          value={name}
+          maxLength={80}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => e.key === "Enter" && save(false)}
+          autoFocus
+        />
+        <DialogFooter className="gap-2">
+          {active && (
+            <Button variant="outline" onClick={() => save(true)}>
+              Save as New
+            </Button>
+          )}
+          <Button onClick={() => save(false)}>Save</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+interface BuildLibraryDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  library: SavedBuild[]
+  activeId: string | null
+  onOpen: (entry: SavedBuild) => void
+  onNew: () => void
+  onRename: (id: string, name: string) => void
+  onDuplicate: (id: string) => void
+  onDelete: (id: string) => void
+}
+
+// Saved builds, newest first, with actions to switch between and manage them
+export function BuildLibraryDialog({
+  open,
+  onOpenChange,
+  library,
+  activeId,
+  onOpen,
+  onNew,
+  onRename,
+  onDuplicate,
+  onDelete,
+}: BuildLibraryDialogProps) {
+  const [renamingId, setRenamingId] = useState<string | null>(null)
+  const [renameValue, setRenameValue] = useState("")
+  const [deletingId, setDeletingId] = useState<string | null>(null)
+
+  const sorted = [...library].sort((a, b) => b.updatedAt - a.updatedAt)
+
+  const startRename = (entry: SavedBuild) => {
+    setRenamingId(entry.id)
+    setRenameValue(entry.name)
+    setDeletingId(null)
+  }
+
+  const finishRename = () => {
+    if (renamingId && renameValue.trim()) onRename(renamingId, renameValue)
+    setRenamingId(null)
+  }
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        setRenamingId(null)
+        setDeletingId(null)
+        onOpenChange(next)
+      }}
+    >
+      <DialogContent className="sm:max-w-[600px] max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>My Builds</DialogTitle>
+          <DialogDescription>
+            Builds saved in this browser. Changes to the open build are saved as you go.
+          </DialogDescription>
+        </DialogHeader>
+
+        {sorted.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-6 text-center">
+            No saved builds yet. Use Save Build to keep the current one.
+          </p>
+        ) : (
+          <ul className="divide-y border rounded-md">
+            {sorted.map((entry) => {
+              const partCount = buildItems(entry.build).reduce((count, item) => count + item.quantity, 0)
+              const total = buildTotal(entry.build)
+              const isActive = entry.id === activeId
+
+              return (
+                <li key={entry.id} className={cn("p-3 flex items-center gap-3", isActive && "bg-primary/5")}>
+                  <div className="flex-1 min-w-0">
+                    {renamingId === entry.id ? (
+                      <div className="flex items-center gap-1">
+                        <Input
+                          className="h-8"
+                          value={renameValue}
+                          maxLength={80}
+                          onChange={(e) => setRenameValue(e.target.value)}
+                          onKeyDown={(e) => {
+                            if (e.key === "Enter") finishRename()
+                            if (e.key === "Escape") setRenamingId(null)
+                          }}
+                          autoFocus
+                        />
+                        <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={finishRename}>
+                          <Check className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={() => setRenamingId(null)}>
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    ) : (
+                      <div className="font-medium truncate">
+                        {entry.name}
+                        {isActive && <span className="ml-2 text-xs font-normal text-primary">Open</span>}
+                      </div>
+                    )}
+                    <div className="text-xs text-muted-foreground">
+                      {partCount} {partCount === 1 ? "part" : "parts"} · {total > 0 ? formatAmount(total) : "N/A"} ·
+                      Updated {new Date(entry.updatedAt).toLocaleDateString()}
+                    </div>
+                  </div>
+
+                  {deletingId === entry.id ? (
+                    <div className="flex items-center gap-1">
+                      <span className="text-xs text-muted-foreground">Delete?</span>
+                      <Button variant="destructive" size="sm" className="h-8" onClick={() => onDelete(entry.id)}>
+                        Delete
+                      </Button>
+                      <Button variant="ghost" size="sm" className="h-8" onClick={() => setDeletingId(null)}>
+                        Cancel
+                      </Button>
+                    </div>
+                  ) : (
+                    <div className="flex items-center gap-1">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="h-8"
+                        disabled={isActive}
+                        onClick={() => onOpen(entry)}
+                      >
+                        <FolderOpen className="mr-1 h-3.5 w-3.5" />
+                        Open
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-8 w-8 p-0"
+                        title="Rename"
+                        onClick={() => startRename(entry)}
+                      >
+                        <Pencil className="h-3.5 w-3.5" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-8 w-8 p-0"
+                        title="Duplicate"
+                        onClick={() => onDuplicate(entry.id)}
+                      >
+                        <Copy className="h-3.5 w-3.5" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-8 w-8 p-0 text-destructive"
+                        title="Delete"
+                        onClick={() => {
+                          setDeletingId(entry.id)
+                          setRenamingId(null)
+                        }}
+                      >
+                        <Trash2 className="h-3.5 w-3.5" />
+                      </Button>
+                    </div>
+                  )}
+                </li>
+              )
+            })}
+          </ul>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onNew}>
+            <Plus className="mr-2 h-4 w-4" />
+            Start a New Build
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
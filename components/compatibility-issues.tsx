@@ -0,0 +1,66 @@
+import { AlertTriangle, CheckCircle2, XCircle } from "lucide-react"
+import { cn } from "@/lib/utils"
+import type { CompatibilityIssue, IssueSeverity } from "@/lib/compatibility"
+
+const severityStyles: Record<IssueSeverity, { icon: typeof XCircle; text: string }> = {
+  error: { icon: XCircle, text: "text-red-600 dark:text-red-400" },
+  warning: { icon: AlertTriangle, text: "text-amber-600 dark:text-amber-400" },
+}
+
+interface CategoryIssuesProps {
+  issues: CompatibilityIssue[]
+  className?: string
+}
+
+// Compact list shown beside a component row
+export function CategoryIssues({ issues, className }: CategoryIssuesProps) {
+  if (issues.length === 0) return null
+
+  return (
+    <ul className={cn("space-y-0.5", className)}>
+      {issues.map((issue) => {
+        const style = severityStyles[issue.severity]
+        return (
+          <li key={`${issue.rule}-${issue.message}`} className={cn("flex items-start gap-1 text-[11px]", style.text)}>
+            <style.icon className="h-3 w-3 mt-0.5 flex-shrink-0" />
+            <span>{issue.message}</span>
+          </li>
+        )
+      })}
+    </ul>
+  )
+}
+
+interface CompatibilitySummaryProps {
+  issues: CompatibilityIssue[]
+  partCount: number
+  className?: string
+}
+
+// Build-wide summary; stays hidden until there are at least two parts to compare
+export function CompatibilitySummary({ issues, partCount, className }: CompatibilitySummaryProps) {
+  if (partCount < 2) return null
+
+  const errors = issues.filter((issue) => issue.severity === "error").length
+  const warnings = issues.length - errors
+
+  if (issues.length === 0) {
+    return (
+      <div className={cn("flex items-center gap-2 text-sm text-green-700 dark:text-green-400", className)}>
+        <CheckCircle2 className="h-4 w-4" />
+        <span>No compatibility problems found</span>
+      </div>
+    )
+  }
+
+  return (
+    <div className={cn("space-y-2", className)}>
+      <div className="text-sm font-medium">
+        {errors > 0 && `${errors} compatibility ${errors === 1 ? "error" : "errors"}`}
+        {errors > 0 && warnings > 0 && ", "}
+        {warnings > 0 && `${warnings} ${warnings === 1 ? "warning" : "warnings"}`}
+      </div>
+      <CategoryIssues issues={issues} className="[&_li]:text-xs" />
+    </div>
+  )
+}
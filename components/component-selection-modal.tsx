@@ -15,6 +15,8 @@ import {
 import { Input } from "@/components/ui/input"
 import { Search } from "lucide-react"
 import Image from "next/image"
+import { AvailabilityBadge } from "@/components/availability-badge"
+import { formatPrice } from "@/lib/price"
 
 interface ComponentSelectionModalProps {
   componentType: string
@@ -91,16 +93,8 @@ export function ComponentSelectionModal({ componentType, onSelect, trigger }: Co
                 <div className="flex-1">
                   <h3 className="font-medium text-sm line-clamp-2">{component.name}</h3>
                   <div className="flex justify-between items-center mt-2">
-                    <span className="font-bold">{component.price}</span>
-                    <span
-                      className={`px-2 py-0.5 rounded text-xs font-medium ${
-                        component.availability === "In Stock"
-                          ? "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-100"
-                          : "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-100"
-                      }`}
-                    >
-                      {component.availability}
-                    </span>
+                    <span className="font-bold">{formatPrice(component.price)}</span>
+                    <AvailabilityBadge availability={component.availability} className="py-0.5" />
                   </div>
                 </div>
               </div>
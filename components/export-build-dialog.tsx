@@ -0,0 +1,90 @@
+"use client"
+
+import { useState } from "react"
+import { Copy, Download } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Textarea } from "@/components/ui/textarea"
+import { useToast } from "@/hooks/use-toast"
+import type { Build } from "@/lib/build"
+import {
+  EXPORT_FILE_TYPES,
+  EXPORT_FORMAT_LABELS,
+  EXPORT_FORMATS,
+  exportBuild,
+  exportItems,
+  type ExportFormat,
+} from "@/lib/build-export"
+
+interface ExportBuildDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  build: Build
+}
+
+// The build as a formatted parts list to paste into a forum or Facebook post, or a spreadsheet
+export function ExportBuildDialog({ open, onOpenChange, build }: ExportBuildDialogProps) {
+  const [format, setFormat] = useState<ExportFormat>("markdown")
+  const { toast } = useToast()
+
+  const text = exportBuild(exportItems(build), format)
+
+  const copy = async () => {
+    try {
+      await navigator.clipboard.writeText(text)
+      toast({ title: `${EXPORT_FORMAT_LABELS[format]} copied`, duration: 2000 })
+    } catch (error) {
+      console.error("Error copying to clipboard:", error)
+      toast({ title: "Couldn't copy to clipboard", variant: "destructive", duration: 3000 })
+    }
+  }
+
+  const download = () => {
+    const { contentType, extension } = EXPORT_FILE_TYPES[format]
+    const url = URL.createObjectURL(new Blob([text], { type: contentType }))
+    const link = document.createElement("a")
+    link.href = url
+    link.download = `pc-build.${extension}`
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[700px]">
+        <DialogHeader>
+          <DialogTitle>Export Build</DialogTitle>
+          <DialogDescription>Copy a parts list with links and totals for posting or saving.</DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap gap-2">
+          {EXPORT_FORMATS.map((id) => (
+            <Button key={id} variant={format === id ? "default" : "outline"} size="sm" onClick={() => setFormat(id)}>
+              {EXPORT_FORMAT_LABELS[id]}
+            </Button>
+          ))}
+        </div>
+
+        <Textarea readOnly value={text} className="font-mono text-xs h-72" onFocus={(e) => e.target.select()} />
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={download}>
+            <Download className="mr-2 h-4 w-4" />
+            Download
+          </Button>
+          <Button onClick={copy}>
+            <Copy className="mr-2 h-4 w-4" />
+            Copy
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
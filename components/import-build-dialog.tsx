@@ -0,0 +1,256 @@
+"use client"
+
+import { useState } from "react"
+import { ArrowLeft, ClipboardPaste, Loader2, Search } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Textarea } from "@/components/ui/textarea"
+import { AvailabilityBadge } from "@/components/availability-badge"
+import type { Build } from "@/lib/build"
+import {
+  findMatches,
+  importedBuild,
+  MIN_CONFIDENCE,
+  parsePartsList,
+  type ImportMatch,
+  type ParsedPart,
+} from "@/lib/parts-import"
+import { formatPrice } from "@/lib/price"
+import { COMPONENT_LABELS, COMPONENT_TYPES, type ComponentType } from "@/lib/retailers/types"
+import { cn } from "@/lib/utils"
+
+// Parts searched at once, to stay gentle on the shops
+const SEARCH_CONCURRENCY = 3
+
+const PLACEHOLDER = [
+  "CPU: AMD Ryzen 5 7600",
+  "Motherboard: MSI B650M Gaming Plus WiFi",
+  "2x Corsair Vengeance 16GB DDR5 6000",
+].join("\n")
+
+interface ReviewLine {
+  part: ParsedPart
+  type: ComponentType | null
+  matches: ImportMatch[]
+  // Index of the listing picked from the matches
+  picked: number
+  include: boolean
+  searching: boolean
+  failed: boolean
+}
+
+interface ImportBuildDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onImport: (build: Build) => void
+}
+
+function confidenceClass(confidence: number): string {
+  if (confidence >= 70) return "bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-300"
+  if (confidence >= MIN_CONFIDENCE) return "bg-amber-100 text-amber-800 dark:bg-amber-900/40 dark:text-amber-300"
+  return "bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-300"
+}
+
+// Paste a parts list from PCPartPicker, a forum post or a spreadsheet, check what each line matched
+// in our shops, then open it in the builder
+export function ImportBuildDialog({ open, onOpenChange, onImport }: ImportBuildDialogProps) {
+  const [text, setText] = useState("")
+  const [lines, setLines] = useState<ReviewLine[] | null>(null)
+
+  const searching = lines?.some((line) => line.searching) ?? false
+  const included = lines?.filter((line) => line.include && line.type && line.matches[line.picked]) ?? []
+
+  const updateLine = (index: number, changes: Partial<ReviewLine>) => {
+    setLines((prev) => prev && prev.map((line, i) => (i === index ? { ...line, ...changes } : line)))
+  }
+
+  const searchLine = async (index: number, part: ParsedPart) => {
+    try {
+      const { type, matches } = await findMatches(part)
+      const confident = (matches[0]?.confidence ?? 0) >= MIN_CONFIDENCE
+      updateLine(index, { type, matches, picked: 0, include: confident, searching: false, failed: false })
+    } catch (error) {
+      console.error("Error searching for imported part:", error)
+      updateLine(index, { matches: [], include: false, searching: false, failed: true })
+    }
+  }
+
+  const findParts = async () => {
+    const parts = parsePartsList(text)
+    setLines(
+      parts.map((part) => ({
+        part,
+        type: part.type,
+        matches: [],
+        picked: 0,
+        include: false,
+        searching: true,
+        failed: false,
+      })),
+    )
+
+    let next = 0
+    const worker = async () => {
+      while (next < parts.length) {
+        const index = next++
+        await searchLine(index, parts[index])
+      }
+    }
+    await Promise.all(Array.from({ length: Math.min(SEARCH_CONCURRENCY, parts.length) }, worker))
+  }
+
+  // A wrong category usually means wrong listings too, so search again within the new one
+  const changeType = (index: number, type: ComponentType) => {
+    const part = { ...lines![index].part, type }
+    updateLine(index, { part, type, matches: [], searching: true })
+    searchLine(index, part)
+  }
+
+  const addToBuilder = () => {
+    onImport(
+      importedBuild(
+        included.map((line) => ({
+          type: line.type!,
+          component: line.matches[line.picked].component,
+          quantity: line.part.quantity,
+        })),
+      ),
+    )
+  }
+
+  const handleOpenChange = (open: boolean) => {
+    if (!open) setLines(null)
+    onOpenChange(open)
+  }
+
+  const renderLine = (line: ReviewLine, index: number) => {
+    const match = line.matches[line.picked]
+    return (
+      <li key={index} className="p-3 flex items-start gap-3">
+        <Checkbox
+          className="mt-1"
+          checked={line.include}
+          disabled={!match || !line.type}
+          onCheckedChange={(checked) => updateLine(index, { include: checked === true })}
+          aria-label={`Import ${line.part.name}`}
+        />
+        <div className="flex-1 min-w-0 space-y-2 text-sm">
+          <div className="text-muted-foreground truncate" title={line.part.line}>
+            {line.part.name}
+            {line.part.quantity > 1 && ` × ${line.part.quantity}`}
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <Select
+              value={line.type ?? undefined}
+              onValueChange={(value) => changeType(index, value as ComponentType)}
+              disabled={line.searching}
+            >
+              <SelectTrigger className="h-8 w-[140px]">
+                <SelectValue placeholder="Category" />
+              </SelectTrigger>
+              <SelectContent>
+                {COMPONENT_TYPES.map((type) => (
+                  <SelectItem key={type} value={type}>
+                    {COMPONENT_LABELS[type]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {line.searching ? (
+              <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+            ) : line.matches.length > 0 ? (
+              <Select
+                value={String(line.picked)}
+                onValueChange={(value) => updateLine(index, { picked: Number(value) })}
+              >
+                <SelectTrigger className="h-8 flex-1 min-w-[200px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {line.matches.map((option, i) => (
+                    <SelectItem key={option.component.url} value={String(i)}>
+                      {option.component.name} ({option.component.source}, {formatPrice(option.component.price)})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            ) : (
+              <span className="text-amber-600 dark:text-amber-400">
+                {line.failed ? "Search failed" : "No matching listing found"}
+              </span>
+            )}
+          </div>
+          {match && (
+            <div className="flex flex-wrap items-center gap-2 text-xs">
+              <span className={cn("px-2 py-0.5 rounded-full font-medium", confidenceClass(match.confidence))}>
+                {match.confidence}% match
+              </span>
+              <span className="text-muted-foreground">{match.component.source}</span>
+              <span className="font-medium">{formatPrice(match.component.price)}</span>
+              <AvailabilityBadge availability={match.component.availability} />
+            </div>
+          )}
+        </div>
+      </li>
+    )
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-[750px] max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Parts List</DialogTitle>
+          <DialogDescription>
+            {lines
+              ? "Check what each line matched. Low-confidence matches are left unticked."
+              : "Paste a PCPartPicker list, a CSV, or one part per line, and we'll find each part in our shops."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {lines ? (
+          lines.length > 0 ? (
+            <ul className="border rounded-md divide-y">{lines.map(renderLine)}</ul>
+          ) : (
+            <p className="text-sm text-muted-foreground py-6 text-center">No parts found in the pasted text.</p>
+          )
+        ) : (
+          <Textarea
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            className="font-mono text-xs h-64"
+            placeholder={PLACEHOLDER}
+          />
+        )}
+
+        <DialogFooter className="gap-2">
+          {lines ? (
+            <>
+              <Button variant="outline" onClick={() => setLines(null)}>
+                <ArrowLeft className="mr-2 h-4 w-4" />
+                Back
+              </Button>
+              <Button onClick={addToBuilder} disabled={searching || included.length === 0}>
+                <ClipboardPaste className="mr-2 h-4 w-4" />
+                Add {included.length} {included.length === 1 ? "Part" : "Parts"} to Builder
+              </Button>
+            </>
+          ) : (
+            <Button onClick={findParts} disabled={!text.trim()}>
+              <Search className="mr-2 h-4 w-4" />
+              Find Parts
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,43 @@
+import { Zap } from "lucide-react"
+import { cn } from "@/lib/utils"
+import type { PowerEstimate } from "@/lib/power"
+
+interface PowerSummaryProps {
+  estimate: PowerEstimate
+  className?: string
+}
+
+// Estimated load and PSU sizing for the current build
+export function PowerSummary({ estimate, className }: PowerSummaryProps) {
+  const { loadWatts, recommendedWatts, psuWatts } = estimate
+  if (loadWatts === 0) return null
+
+  const psuStyle =
+    psuWatts === null
+      ? "text-muted-foreground"
+      : psuWatts < loadWatts
+        ? "text-red-600 dark:text-red-400"
+        : psuWatts < recommendedWatts
+          ? "text-amber-600 dark:text-amber-400"
+          : "text-green-700 dark:text-green-400"
+
+  return (
+    <div className={cn("flex flex-wrap items-center gap-x-4 gap-y-1 text-sm", className)}>
+      <div className="flex items-center gap-1.5">
+        <Zap className="h-4 w-4 text-primary" />
+        <span className="text-muted-foreground">Estimated load:</span>
+        <span className="font-medium">{loadWatts}W</span>
+      </div>
+      <div>
+        <span className="text-muted-foreground">Recommended PSU:</span>{" "}
+        <span className="font-medium">{recommendedWatts}W</span>
+      </div>
+      {psuWatts !== null && (
+        <div className={psuStyle}>
+          <span>Selected PSU:</span> <span className="font-medium">{psuWatts}W</span>
+          {psuWatts < recommendedWatts && <span> ({psuWatts < loadWatts ? "too small" : "tight"})</span>}
+        </div>
+      )}
+    </div>
+  )
+}
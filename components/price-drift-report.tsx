@@ -0,0 +1,152 @@
+import { ArrowRight, Loader2, RefreshCw, TrendingUp, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import type { BuildItem } from "@/lib/build"
+import { formatAmount, formatPrice } from "@/lib/price"
+import { driftTotals, type DriftReport, type PartDrift } from "@/lib/price-drift"
+import type { Product } from "@/lib/retailers/types"
+import { cn } from "@/lib/utils"
+
+interface PriceDriftReportProps {
+  // null while the first check is running
+  report: DriftReport | null
+  checking: boolean
+  onRefresh: () => void
+  onApply: () => void
+  onReplace: (item: BuildItem, replacement: Product) => void
+  onDismiss: () => void
+  className?: string
+}
+
+function formatChange(change: number): string {
+  return `${change > 0 ? "+" : "-"}${formatAmount(Math.abs(change))}`
+}
+
+function changeClass(change: number): string {
+  return change > 0 ? "text-red-600 dark:text-red-400" : "text-green-700 dark:text-green-400"
+}
+
+// What the parts cost when picked against today, with replacements for parts that can't be bought any more
+export function PriceDriftReport({
+  report,
+  checking,
+  onRefresh,
+  onApply,
+  onReplace,
+  onDismiss,
+  className,
+}: PriceDriftReportProps) {
+  const changed = report?.parts.filter((part) => part.status !== "unchanged" && part.status !== "unknown") ?? []
+  const totals = report && driftTotals(report)
+  const canApply = changed.some((part) => part.current)
+
+  const renderPart = ({ item, current, status, change, suggestions }: PartDrift) => {
+    const unavailable = status === "missing" || status === "out-of-stock"
+    return (
+      <li
+        key={item.url}
+        className={cn("p-3 text-sm", unavailable && "bg-amber-50 dark:bg-amber-950/30 border-l-2 border-amber-500")}
+      >
+        <div className="flex flex-wrap items-baseline justify-between gap-x-3 gap-y-1">
+          <a href={item.url} target="_blank" rel="noopener noreferrer" className="hover:text-primary min-w-0">
+            {item.name}
+            <span className="text-muted-foreground"> ({item.source})</span>
+          </a>
+          {status === "missing" ? (
+            <span className="font-medium text-amber-600 dark:text-amber-400">No longer listed</span>
+          ) : status === "out-of-stock" ? (
+            <span className="font-medium text-amber-600 dark:text-amber-400">Out of stock</span>
+          ) : (
+            <span className="flex items-center gap-1 whitespace-nowrap">
+              <span className="text-muted-foreground">{formatPrice(item.price)}</span>
+              <ArrowRight className="h-3 w-3 text-muted-foreground" />
+              <span>{formatPrice(current!.price)}</span>
+              {change ? <span className={cn("font-medium", changeClass(change))}>{formatChange(change)}</span> : null}
+            </span>
+          )}
+        </div>
+        {unavailable && (
+          <div className="mt-2 space-y-1">
+            {suggestions.length === 0 ? (
+              <p className="text-xs text-muted-foreground">No in-stock replacement found.</p>
+            ) : (
+              suggestions.map((replacement) => (
+                <div key={replacement.url} className="flex items-center justify-between gap-2 text-xs">
+                  <span className="min-w-0 truncate">
+                    {replacement.name} <span className="text-muted-foreground">({replacement.source})</span>
+                  </span>
+                  <span className="flex items-center gap-2 flex-shrink-0">
+                    <span className="font-medium">{formatPrice(replacement.price)}</span>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="h-6 px-2 text-xs"
+                      onClick={() => onReplace(item, replacement)}
+                    >
+                      Swap
+                    </Button>
+                  </span>
+                </div>
+              ))
+            )}
+          </div>
+        )}
+      </li>
+    )
+  }
+
+  return (
+    <div className={cn("space-y-3", className)}>
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <TrendingUp className="h-5 w-5 text-primary" />
+          <h3 className="font-medium">Price Changes</h3>
+        </div>
+        <div className="flex items-center gap-1">
+          <Button variant="outline" size="sm" className="h-7 text-xs" onClick={onRefresh} disabled={checking}>
+            <RefreshCw className={cn("mr-1 h-3 w-3", checking && "animate-spin")} />
+            Check Again
+          </Button>
+          <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={onDismiss} aria-label="Dismiss">
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      {!report ? (
+        <p className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Checking today&apos;s prices at each shop...
+        </p>
+      ) : (
+        <>
+          <div className="flex flex-wrap items-baseline gap-x-4 gap-y-1 text-sm">
+            <div>
+              <span className="text-muted-foreground">When picked: </span>
+              {formatAmount(totals!.saved)}
+            </div>
+            <div>
+              <span className="text-muted-foreground">Today: </span>
+              <span className="font-bold text-primary">{formatAmount(totals!.current)}</span>
+              {totals!.change !== 0 && (
+                <span className={cn("ml-1 font-medium", changeClass(totals!.change))}>
+                  ({formatChange(totals!.change)})
+                </span>
+              )}
+            </div>
+            <div className="text-xs text-muted-foreground">
+              Checked {new Date(report.checkedAt).toLocaleString()}
+            </div>
+          </div>
+
+          <ul className="border rounded-md divide-y">{changed.map(renderPart)}</ul>
+
+          {canApply && (
+            <Button size="sm" onClick={onApply}>
+              Update to Today&apos;s Prices
+            </Button>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
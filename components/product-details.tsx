@@ -0,0 +1,90 @@
+import Image from "next/image"
+import type { ProductDetail } from "@/lib/retailers/types"
+import { cn } from "@/lib/utils"
+
+interface ProductDetailsProps {
+  detail: ProductDetail
+  // Show at most this many spec rows, without group headings; for tooltips
+  maxSpecs?: number
+  className?: string
+}
+
+// Gallery thumbnails shown at most; the listing's own image is already on the card
+const MAX_IMAGES = 6
+
+// Brand, warranty, key features, gallery, description and the specification table read from a product page.
+// Tooltips only get the summary and the first few specs
+export function ProductDetails({ detail, maxSpecs, className }: ProductDetailsProps) {
+  const compact = maxSpecs !== undefined
+  const groups = compact
+    ? [
+        {
+          title: "",
+          specs: Object.fromEntries(
+            detail.specGroups.flatMap((group) => Object.entries(group.specs)).slice(0, maxSpecs),
+          ),
+        },
+      ]
+    : detail.specGroups
+
+  return (
+    <div className={cn("space-y-2 text-xs", className)}>
+      {(detail.brand || detail.warranty) && (
+        <div className="flex flex-wrap gap-x-3 gap-y-1">
+          {detail.brand && (
+            <span>
+              <span className="text-muted-foreground">Brand:</span> {detail.brand}
+            </span>
+          )}
+          {detail.warranty && (
+            <span>
+              <span className="text-muted-foreground">Warranty:</span> {detail.warranty}
+            </span>
+          )}
+        </div>
+      )}
+
+      {!compact && detail.keyFeatures.length > 0 && (
+        <ul className="list-disc pl-4 space-y-0.5">
+          {detail.keyFeatures.map((feature) => (
+            <li key={feature}>{feature}</li>
+          ))}
+        </ul>
+      )}
+
+      {!compact && detail.images.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {detail.images.slice(0, MAX_IMAGES).map((src, index) => (
+            <a key={src} href={src} target="_blank" rel="noopener noreferrer" className="block rounded border bg-white">
+              <Image
+                src={src}
+                alt={`${detail.name} image ${index + 1}`}
+                width={64}
+                height={64}
+                className="h-16 w-16 object-contain p-1"
+              />
+            </a>
+          ))}
+        </div>
+      )}
+
+      {!compact && detail.description && (
+        <p className="max-h-40 overflow-y-auto whitespace-pre-line text-muted-foreground">{detail.description}</p>
+      )}
+
+      {groups.map((group, index) => (
+        <div key={`${group.title}-${index}`}>
+          {group.title && <div className="font-medium mb-0.5">{group.title}</div>}
+          <dl className="space-y-0.5">
+            {Object.entries(group.specs).map(([name, value]) => (
+              <div key={name} className="flex justify-between gap-3">
+                <dt className="text-muted-foreground">{name}</dt>
+                <dd className="font-medium text-right">{value}</dd>
+              </div>
+            ))}
+          </dl>
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -1,24 +1,42 @@
-import type React from "react"
+"use client"
+
+import { useState, type ReactNode } from "react"
+import { Loader2 } from "lucide-react"
 import { TooltipProvider, TooltipRoot, TooltipTrigger, TooltipContent } from "@/components/ui/tooltip"
 import Image from "next/image"
+import { ProductDetails } from "@/components/product-details"
+import { useProductDetail } from "@/hooks/use-product-detail"
+import type { Availability } from "@/lib/availability"
+import type { Price } from "@/lib/price"
+import { partSpecs } from "@/lib/specs"
 
 interface ProductTooltipProps {
   product: {
     name: string
     image: string
-    price?: string
+    price?: Price
     source?: string
-    availability?: string
+    availability?: Availability
     url?: string
+    type?: string
     specs?: Record<string, string>
   }
-  children: React.ReactNode
+  children: ReactNode
 }
 
+// Spec rows shown from the product page; the tooltip is only a preview
+const TOOLTIP_SPEC_ROWS = 8
+
+// Hover card for a part: what its name tells us straight away, then the product page's details
+// once the tooltip has been opened
 export function ProductTooltip({ product, children }: ProductTooltipProps) {
+  const [opened, setOpened] = useState(false)
+  const { status, detail } = useProductDetail(product.url, opened)
+  const specs = Object.entries(partSpecs(product))
+
   return (
     <TooltipProvider delayDuration={100}>
-      <TooltipRoot>
+      <TooltipRoot onOpenChange={(open) => open && setOpened(true)}>
         <TooltipTrigger asChild>
           <span className="hover:underline cursor-pointer">{children}</span>
         </TooltipTrigger>
@@ -35,6 +53,23 @@ export function ProductTooltip({ product, children }: ProductTooltipProps) {
                 />
               </div>
             )}
+            {detail && <ProductDetails detail={detail} maxSpecs={TOOLTIP_SPEC_ROWS} />}
+            {(!detail || detail.specGroups.length === 0) && specs.length > 0 && (
+              <dl className="text-xs space-y-0.5">
+                {specs.map(([key, value]) => (
+                  <div key={key} className="flex justify-between gap-3">
+                    <dt className="text-muted-foreground">{key}</dt>
+                    <dd className="font-medium text-right">{value}</dd>
+                  </div>
+                ))}
+              </dl>
+            )}
+            {status === "loading" && (
+              <div className="flex items-center gap-1 text-xs text-muted-foreground">
+                <Loader2 className="h-3 w-3 animate-spin" />
+                Loading full specs...
+              </div>
+            )}
           </div>
         </TooltipContent>
       </TooltipRoot>
@@ -0,0 +1,221 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Copy, ExternalLink, Loader2, MessageCircle, Printer } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { AvailabilityBadge } from "@/components/availability-badge"
+import { useToast } from "@/hooks/use-toast"
+import { buildItems, lineTotal, type Build, type BuildItem } from "@/lib/build"
+import { fetchCurrentListing, priceChange } from "@/lib/listing-lookup"
+import { formatAmount, formatPrice, type Price } from "@/lib/price"
+import {
+  checklistText,
+  groupByRetailer,
+  loadPurchased,
+  orderMessage,
+  savePurchased,
+  type PurchasedItems,
+} from "@/lib/purchase-checklist"
+import { cn } from "@/lib/utils"
+
+// Today's price per build item URL: null when the shop no longer lists it, undefined while checking
+type CurrentPrices = Record<string, Price | null | undefined>
+
+interface PurchaseChecklistDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  build: Build
+}
+
+// The build as a shopping list: one section per shop with links, prices and a tick box per part
+export function PurchaseChecklistDialog({ open, onOpenChange, build }: PurchaseChecklistDialogProps) {
+  const [purchased, setPurchased] = useState<PurchasedItems>({})
+  const [currentPrices, setCurrentPrices] = useState<CurrentPrices>({})
+  const { toast } = useToast()
+
+  const groups = groupByRetailer(build)
+  const total = groups.reduce((sum, group) => sum + group.subtotal, 0)
+  const remaining = buildItems(build)
+    .filter((item) => !purchased[item.url])
+    .reduce((sum, item) => sum + lineTotal(item), 0)
+
+  // Check today's prices each time the list is opened
+  useEffect(() => {
+    if (!open) return
+    setPurchased(loadPurchased(build))
+    setCurrentPrices({})
+
+    // Answers for an earlier opening or an earlier build are ignored
+    let cancelled = false
+    const setCurrentPrice = (url: string, price: Price | null) => {
+      if (!cancelled) setCurrentPrices((prev) => ({ ...prev, [url]: price }))
+    }
+
+    buildItems(build).forEach((item) => {
+      fetchCurrentListing(item)
+        .then((listing) => setCurrentPrice(item.url, listing ? listing.price : null))
+        .catch((error) => {
+          console.error("Error checking current price:", error)
+          // Fall back to the price at selection so the row stops loading
+          setCurrentPrice(item.url, item.price)
+        })
+    })
+
+    return () => {
+      cancelled = true
+    }
+  }, [open, build])
+
+  const togglePurchased = (item: BuildItem, checked: boolean) => {
+    setPurchased((prev) => ({ ...prev, [item.url]: checked }))
+    savePurchased({ [item.url]: checked })
+  }
+
+  const copyText = async (text: string, what: string) => {
+    try {
+      await navigator.clipboard.writeText(text)
+      toast({ title: `${what} copied`, duration: 2000 })
+    } catch (error) {
+      console.error("Error copying to clipboard:", error)
+      toast({ title: "Couldn't copy to clipboard", variant: "destructive", duration: 3000 })
+    }
+  }
+
+  const printList = () => {
+    const printWindow = window.open("", "_blank")
+    if (!printWindow) return
+
+    const pre = printWindow.document.createElement("pre")
+    pre.style.font = "14px/1.5 monospace"
+    pre.textContent = checklistText(groups, purchased)
+    printWindow.document.title = "PC Build Purchase List"
+    printWindow.document.body.appendChild(pre)
+    printWindow.print()
+  }
+
+  const renderCurrentPrice = (item: BuildItem) => {
+    const current = currentPrices[item.url]
+    if (current === undefined) return <Loader2 className="h-3 w-3 animate-spin text-muted-foreground" />
+    if (current === null) return <span className="text-amber-600 dark:text-amber-400">No longer listed</span>
+
+    const change = priceChange(item, current)
+    return (
+      <span
+        className={cn(
+          change && change > 0 && "text-red-600 dark:text-red-400",
+          change && change < 0 && "text-green-700 dark:text-green-400",
+        )}
+      >
+        Now {formatPrice(current)}
+        {change ? ` (${change > 0 ? "+" : "-"}${formatAmount(Math.abs(change))})` : ""}
+      </span>
+    )
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[700px] max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Purchase Plan</DialogTitle>
+          <DialogDescription>
+            Your parts grouped by shop. Tick them off as you buy, or send each shop an order message.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {groups.map((group) => {
+            const message = orderMessage(group)
+            return (
+              <section key={group.retailer} className="border rounded-md">
+                <div className="flex flex-wrap items-center justify-between gap-2 p-3 bg-muted/50 border-b">
+                  <div>
+                    <h3 className="font-medium">{group.retailer}</h3>
+                    <div className="text-sm text-primary font-semibold">{formatAmount(group.subtotal)}</div>
+                  </div>
+                  <div className="flex gap-1">
+                    <Button variant="outline" size="sm" className="h-8" onClick={() => copyText(message, "Message")}>
+                      <Copy className="mr-1 h-3.5 w-3.5" />
+                      Copy Message
+                    </Button>
+                    <Button variant="outline" size="sm" className="h-8" asChild>
+                      <a
+                        href={`https://wa.me/?text=${encodeURIComponent(message)}`}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                      >
+                        <MessageCircle className="mr-1 h-3.5 w-3.5" />
+                        WhatsApp
+                      </a>
+                    </Button>
+                  </div>
+                </div>
+                <ul className="divide-y">
+                  {group.items.map((item) => (
+                    <li key={item.url} className="p-3 flex items-start gap-3">
+                      <Checkbox
+                        className="mt-1"
+                        checked={Boolean(purchased[item.url])}
+                        onCheckedChange={(checked) => togglePurchased(item, checked === true)}
+                        aria-label={`Mark ${item.name} as purchased`}
+                      />
+                      <div className="flex-1 min-w-0 text-sm">
+                        <a
+                          href={item.url}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className={cn(
+                            "hover:text-primary inline-flex items-start gap-1",
+                            purchased[item.url] && "line-through text-muted-foreground",
+                          )}
+                        >
+                          <span>
+                            {item.name}
+                            {item.quantity > 1 && <span className="text-muted-foreground"> × {item.quantity}</span>}
+                          </span>
+                          <ExternalLink className="h-3 w-3 mt-1 flex-shrink-0" />
+                        </a>
+                        <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-xs mt-1">
+                          <span className="text-muted-foreground">Picked at {formatPrice(item.price)}</span>
+                          {renderCurrentPrice(item)}
+                          <AvailabilityBadge availability={item.availability} />
+                        </div>
+                      </div>
+                      <div className="text-sm font-medium whitespace-nowrap">
+                        {lineTotal(item) > 0 ? formatAmount(lineTotal(item)) : "N/A"}
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              </section>
+            )
+          })}
+
+          <div className="flex justify-between text-sm">
+            <span className="text-muted-foreground">Still to buy: {formatAmount(remaining)}</span>
+            <span className="font-bold">Total: {formatAmount(total)}</span>
+          </div>
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={() => copyText(checklistText(groups, purchased), "Purchase list")}>
+            <Copy className="mr-2 h-4 w-4" />
+            Copy as Text
+          </Button>
+          <Button variant="outline" onClick={printList}>
+            <Printer className="mr-2 h-4 w-4" />
+            Print
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
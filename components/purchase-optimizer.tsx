@@ -0,0 +1,109 @@
+import { ArrowRight, Check, PiggyBank } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { formatAmount } from "@/lib/price"
+import type { OptimizerOptions, PurchasePlan } from "@/lib/pricing"
+import { cn } from "@/lib/utils"
+
+const SHOP_LIMITS: (number | null)[] = [null, 1, 2, 3]
+
+interface PurchaseOptimizerProps {
+  plan: PurchasePlan
+  options: OptimizerOptions
+  onOptionsChange: (options: OptimizerOptions) => void
+  onApply: () => void
+  className?: string
+}
+
+// Cheapest mix of shops for the build, with what it saves over buying everything from one shop
+export function PurchaseOptimizer({ plan, options, onOptionsChange, onApply, className }: PurchaseOptimizerProps) {
+  const changes = plan.assignments.filter((assignment) => assignment.changed)
+
+  return (
+    <div className={cn("space-y-3", className)}>
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <PiggyBank className="h-5 w-5 text-primary" />
+          <h3 className="font-medium">Cheapest Combination</h3>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <Button
+            variant={options.inStockOnly ? "default" : "outline"}
+            size="sm"
+            className="h-7 text-xs"
+            onClick={() => onOptionsChange({ ...options, inStockOnly: !options.inStockOnly })}
+          >
+            In stock only
+            {options.inStockOnly && <Check className="ml-1 h-3 w-3" />}
+          </Button>
+          <div className="flex items-center gap-1">
+            <span className="text-xs text-muted-foreground">Max shops:</span>
+            {SHOP_LIMITS.map((limit) => (
+              <Button
+                key={limit ?? "any"}
+                variant={options.maxShops === limit ? "default" : "outline"}
+                size="sm"
+                className="h-7 px-2 text-xs"
+                onClick={() => onOptionsChange({ ...options, maxShops: limit })}
+              >
+                {limit ?? "Any"}
+              </Button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {plan.assignments.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No shop has a price for these parts with the current filters.</p>
+      ) : (
+        <>
+          <div className="flex flex-wrap items-baseline gap-x-4 gap-y-1 text-sm">
+            <div>
+              <span className="text-muted-foreground">Total: </span>
+              <span className="font-bold text-primary">{formatAmount(plan.total)}</span>
+              <span className="text-muted-foreground">
+                {" "}
+                from {plan.shops.length} {plan.shops.length === 1 ? "shop" : "shops"} ({plan.shops.join(", ")})
+              </span>
+            </div>
+            {plan.bestSingleRetailer && plan.savings !== null && (
+              <div className={plan.savings > 0 ? "text-green-700 dark:text-green-400" : "text-muted-foreground"}>
+                {plan.savings > 0
+                  ? `Saves ${formatAmount(plan.savings)} over ${plan.bestSingleRetailer.retailer} alone`
+                  : `Same as buying everything from ${plan.bestSingleRetailer.retailer}`}
+              </div>
+            )}
+          </div>
+
+          {plan.unassigned.length > 0 && (
+            <p className="text-xs text-amber-600 dark:text-amber-400">
+              Not included, no allowed shop has a price: {plan.unassigned.map((item) => item.name).join(", ")}
+            </p>
+          )}
+
+          {changes.length > 0 ? (
+            <div className="space-y-1">
+              <ul className="space-y-1 text-xs">
+                {changes.map(({ item, offer }) => (
+                  <li key={item.url} className="flex items-center gap-1.5">
+                    <span className="truncate max-w-[40%]" title={item.name}>
+                      {item.name}
+                    </span>
+                    <span className="text-muted-foreground">{item.source}</span>
+                    <ArrowRight className="h-3 w-3 flex-shrink-0 text-muted-foreground" />
+                    <span className="font-medium">{offer.source}</span>
+                    <span className="text-muted-foreground">{formatAmount(offer.price.current!)}</span>
+                  </li>
+                ))}
+              </ul>
+              <Button size="sm" className="mt-2" onClick={onApply}>
+                Apply Plan
+              </Button>
+            </div>
+          ) : (
+            <p className="text-xs text-muted-foreground">Your build already uses the cheapest shops.</p>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
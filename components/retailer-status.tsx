@@ -0,0 +1,69 @@
+import { cn } from "@/lib/utils"
+import { oldestCachedAt } from "@/lib/retailers/reports"
+import type { RetailerReport, RetailerStatus } from "@/lib/retailers/types"
+
+const statusStyles: Record<RetailerStatus, { dot: string; label: string }> = {
+  ok: { dot: "bg-green-500", label: "OK" },
+  empty: { dot: "bg-gray-400", label: "No results" },
+  timeout: { dot: "bg-amber-500", label: "Timed out" },
+  "http-error": { dot: "bg-red-500", label: "Unreachable" },
+  "parse-error": { dot: "bg-red-500", label: "Couldn't read listings" },
+  blocked: { dot: "bg-red-500", label: "Blocked by bot check" },
+  "circuit-open": { dot: "bg-amber-500", label: "Paused after errors" },
+}
+
+interface RetailerStatusBarProps {
+  reports: Record<string, RetailerReport>
+  className?: string
+}
+
+// "just now", "12 minutes ago", "3 hours ago"
+function timeAgo(time: string): string {
+  const minutes = Math.floor((Date.now() - Date.parse(time)) / 60000)
+  if (minutes < 1) return "just now"
+  if (minutes < 60) return `${minutes} ${minutes === 1 ? "minute" : "minutes"} ago`
+  const hours = Math.floor(minutes / 60)
+  return `${hours} ${hours === 1 ? "hour" : "hours"} ago`
+}
+
+// One pill per shop so "no results" can be told apart from "shop is down"
+export function RetailerStatusBar({ reports, className }: RetailerStatusBarProps) {
+  const entries = Object.entries(reports)
+  if (entries.length === 0) return null
+
+  // Results can come from the scrape cache, so say how old the oldest prices shown are
+  const cachedAt = oldestCachedAt(Object.values(reports))
+
+  return (
+    <div className={cn("flex flex-wrap gap-2", className)}>
+      {entries.map(([name, report]) => {
+        const style = statusStyles[report.status]
+        const details = [
+          style.label,
+          `${report.itemCount} ${report.itemCount === 1 ? "item" : "items"}`,
+          `${(report.latencyMs / 1000).toFixed(1)}s`,
+          report.error,
+        ]
+          .filter(Boolean)
+          .join(" · ")
+
+        return (
+          <div
+            key={name}
+            title={details}
+            className="flex items-center gap-1.5 rounded-full border px-2 py-0.5 text-xs text-muted-foreground"
+          >
+            <span className={cn("h-2 w-2 rounded-full", style.dot)} />
+            <span>{name}</span>
+            {report.status !== "ok" && <span className="hidden sm:inline">· {style.label}</span>}
+          </div>
+        )
+      })}
+      {cachedAt && (
+        <span className="self-center text-xs text-muted-foreground" title={new Date(cachedAt).toLocaleString()}>
+          Prices as of {timeAgo(cachedAt)}
+        </span>
+      )}
+    </div>
+  )
+}
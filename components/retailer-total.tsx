@@ -0,0 +1,51 @@
+import { AlertTriangle, CheckCircle2 } from "lucide-react"
+import { formatAmount } from "@/lib/price"
+import type { RetailerTotal } from "@/lib/pricing"
+import { cn } from "@/lib/utils"
+
+// Names of the parts a shop can't supply, for the hover text of its total
+function coverageDetails({ missing, outOfStock }: RetailerTotal): string {
+  return [
+    missing.length > 0 && `Not listed: ${missing.map((item) => item.name).join(", ")}`,
+    outOfStock.length > 0 && `Out of stock: ${outOfStock.map((item) => item.name).join(", ")}`,
+  ]
+    .filter(Boolean)
+    .join("\n")
+}
+
+interface RetailerTotalValueProps {
+  total: RetailerTotal
+  // The cheapest shop that can sell the whole build
+  isCheapest?: boolean
+  className?: string
+}
+
+// A shop's build total; totals that leave parts out are greyed and say how much of the build they cover
+export function RetailerTotalValue({ total, isCheapest, className }: RetailerTotalValueProps) {
+  if (total.matched === 0) {
+    return <span className={cn("text-muted-foreground block", className)}>N/A</span>
+  }
+
+  return (
+    <div className={className} title={total.complete ? undefined : coverageDetails(total)}>
+      <div className={cn("text-base", total.complete ? "font-bold text-primary" : "font-medium text-muted-foreground")}>
+        {formatAmount(total.total)}
+      </div>
+      {total.complete ? (
+        isCheapest && (
+          <div className="flex items-center gap-1 text-[11px] text-green-700 dark:text-green-400 justify-end">
+            <CheckCircle2 className="h-3 w-3" />
+            Cheapest complete
+          </div>
+        )
+      ) : (
+        <div className="flex items-center gap-1 text-[11px] text-amber-600 dark:text-amber-400 justify-end">
+          <AlertTriangle className="h-3 w-3" />
+          {total.missing.length > 0
+            ? `${total.matched}/${total.partCount} parts`
+            : `${total.outOfStock.length} out of stock`}
+        </div>
+      )}
+    </div>
+  )
+}
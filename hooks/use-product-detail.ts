@@ -0,0 +1,48 @@
+import * as React from "react"
+import type { ProductDetail } from "@/lib/retailers/types"
+
+type DetailState = { status: "idle" | "loading" | "error"; detail: null } | { status: "ready"; detail: ProductDetail }
+
+// Product pages are fetched once per visit, however many cards and tooltips show the same listing
+const detailRequests = new Map<string, Promise<ProductDetail>>()
+
+function requestDetail(url: string): Promise<ProductDetail> {
+  let request = detailRequests.get(url)
+  if (!request) {
+    request = fetch(`/api/product-detail?url=${encodeURIComponent(url)}`).then(async (response) => {
+      if (!response.ok) throw new Error(`Failed to fetch product detail: ${response.status}`)
+      const data = await response.json()
+      return data.detail as ProductDetail
+    })
+    // A failed request can be tried again next time
+    request.catch(() => detailRequests.delete(url))
+    detailRequests.set(url, request)
+  }
+  return request
+}
+
+// Full details from a listing's product page, fetched once `enabled` turns true
+export function useProductDetail(url: string | undefined, enabled: boolean): DetailState {
+  const [state, setState] = React.useState<DetailState>({ status: "idle", detail: null })
+
+  React.useEffect(() => {
+    if (!url || !enabled) return
+
+    let cancelled = false
+    setState({ status: "loading", detail: null })
+    requestDetail(url)
+      .then((detail) => {
+        if (!cancelled) setState({ status: "ready", detail })
+      })
+      .catch((error) => {
+        console.error("Error fetching product detail:", error)
+        if (!cancelled) setState({ status: "error", detail: null })
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [url, enabled])
+
+  return state
+}
@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest"
+import { parseAvailability, toAvailability } from "./availability"
+
+describe("parseAvailability", () => {
+  it.each([
+    ["In Stock", "in-stock"],
+    ["Available", "in-stock"],
+    ["Not available", "out-of-stock"],
+    ["Not Available Now", "out-of-stock"],
+    ["Unavailable", "out-of-stock"],
+    ["Out Of Stock", "out-of-stock"],
+    ["Sold Out", "out-of-stock"],
+    ["Limited Stock", "limited-stock"],
+    ["Pre-Order", "pre-order"],
+    ["Up Coming", "upcoming"],
+    ["Call for Price", "call-for-price"],
+  ] as const)("reads %j as %s", (label, expected) => {
+    expect(parseAvailability(label)).toBe(expected)
+  })
+
+  it("returns null for a label none of the phrases match", () => {
+    expect(parseAvailability("Ships in 3 days")).toBeNull()
+  })
+})
+
+describe("toAvailability", () => {
+  it("keeps a normalized state", () => {
+    expect(toAvailability("pre-order")).toBe("pre-order")
+  })
+
+  it("reads labels saved before availability was normalized", () => {
+    expect(toAvailability("In Stock")).toBe("in-stock")
+    expect(toAvailability("Out of Stock")).toBe("out-of-stock")
+  })
+
+  it("never passes inherited object keys through as a state", () => {
+    expect(toAvailability("toString")).toBe("out-of-stock")
+    expect(toAvailability("constructor")).toBe("out-of-stock")
+  })
+})
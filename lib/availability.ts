@@ -0,0 +1,57 @@
+// Normalized stock states shared by the API routes and the pages
+
+export type Availability =
+  | "in-stock"
+  | "limited-stock"
+  | "pre-order"
+  | "upcoming"
+  | "call-for-price"
+  | "out-of-stock"
+
+export const AVAILABILITY_LABELS: Record<Availability, string> = {
+  "in-stock": "In Stock",
+  "limited-stock": "Limited Stock",
+  "pre-order": "Pre-Order",
+  upcoming: "Upcoming",
+  "call-for-price": "Call for Price",
+  "out-of-stock": "Out of Stock",
+}
+
+// Maps a phrase a shop prints in its stock label to a state
+export type AvailabilityPhrase = [RegExp, Availability]
+
+// Checked in order, so the more specific phrases come first ("out of stock" before "in stock")
+export const DEFAULT_AVAILABILITY_PHRASES: AvailabilityPhrase[] = [
+  [/out\s*of\s*stock|sold\s*out|stock\s*out|unavailable|not\s*available/i, "out-of-stock"],
+  [/limited\s*stock|few\s*left|low\s*stock/i, "limited-stock"],
+  [/pre\s*-?\s*order/i, "pre-order"],
+  [/up\s*-?\s*coming|coming\s*soon/i, "upcoming"],
+  [/call\s*for\s*price|contact\s*for\s*price/i, "call-for-price"],
+  [/in\s*stock|available/i, "in-stock"],
+]
+
+// Read a stock label, returning null when none of the phrases match
+export function parseAvailability(
+  stockText: string,
+  phrases: AvailabilityPhrase[] = DEFAULT_AVAILABILITY_PHRASES,
+): Availability | null {
+  const match = phrases.find(([pattern]) => pattern.test(stockText))
+  return match ? match[1] : null
+}
+
+function isAvailability(value: string): value is Availability {
+  // Own keys only, so "toString" or "constructor" from saved data isn't taken for a state
+  return Object.hasOwn(AVAILABILITY_LABELS, value)
+}
+
+// Builds and compare lists saved before availability was normalized still hold "In Stock" / "Out of Stock"
+export function toAvailability(value: string | null | undefined): Availability {
+  if (!value) return "out-of-stock"
+  if (isAvailability(value)) return value
+  return parseAvailability(value) ?? "out-of-stock"
+}
+
+// Whether the part can be bought and picked up today
+export function isPurchasable(availability: Availability): boolean {
+  return availability === "in-stock" || availability === "limited-stock"
+}
@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest"
+import { exportBuild, type ExportItem } from "./build-export"
+import { createPrice } from "./price"
+
+const item: ExportItem = {
+  type: "cpu",
+  name: "Ryzen 5 7600 [Tray] | (OEM)",
+  source: "Star|Tech",
+  price: createPrice("20,500", 20500),
+  url: "https://shop.test/ryzen (tray)",
+  quantity: 1,
+}
+
+describe("markdown exports", () => {
+  it("escapes part names and shops so they can't break the link or the table", () => {
+    const markdown = exportBuild([item], "markdown")
+    expect(markdown).toContain(
+      "| [Ryzen 5 7600 \\[Tray\\] \\| \\(OEM\\)](https://shop.test/ryzen%20%28tray%29) | Star\\|Tech |",
+    )
+  })
+
+  it("encodes the build link in the Reddit layout", () => {
+    const reddit = exportBuild([item], "reddit", { link: "https://site.test/build?build=a b)" })
+    expect(reddit.split("\n")[0]).toBe("[Build link](https://site.test/build?build=a%20b%29)")
+    expect(reddit).toContain("](https://shop.test/ryzen%20%28tray%29)")
+  })
+})
+
+describe("CSV exports", () => {
+  it("keeps spreadsheets from running part names as formulas", () => {
+    const csv = exportBuild([{ ...item, name: "=HYPERLINK(\"https://evil.test\")", source: "@Shop" }], "csv")
+    const row = csv.split("\n")[1]
+    expect(row).toContain(`"'=HYPERLINK(""https://evil.test"")"`)
+    expect(row).toContain(",'@Shop,")
+  })
+
+  it("quotes cells holding a carriage return", () => {
+    const csv = exportBuild([{ ...item, name: "Ryzen\r5", source: "Shop" }], "csv")
+    expect(csv.split("\n")[1]).toMatch(/^CPU,"Ryzen\r5",Shop,1,20500,20500,/)
+  })
+})
+
+describe("BBCode exports", () => {
+  it("encodes the link so brackets and spaces can't end the tag early", () => {
+    const bbcode = exportBuild([{ ...item, url: "https://shop.test/ryzen [tray]" }], "bbcode", {
+      link: "https://site.test/build?build=a]b",
+    })
+    expect(bbcode).toContain("[url=https://shop.test/ryzen%20%5Btray%5D]Ryzen 5 7600 Tray | (OEM)[/url]")
+    expect(bbcode).toContain("[url=https://site.test/build?build=a%5Db]View this build[/url]")
+  })
+})
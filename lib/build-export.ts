@@ -0,0 +1,212 @@
+// Formatted parts lists for posting a build on forums, Reddit and Facebook groups, or opening it in a spreadsheet
+import { lineTotal } from "@/lib/build"
+import { formatAmount, formatPrice, type Price } from "@/lib/price"
+import { COMPONENT_LABELS, COMPONENT_TYPES, type ComponentType } from "@/lib/retailers/types"
+
+export const EXPORT_FORMATS = ["markdown", "reddit", "bbcode", "csv", "text"] as const
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number]
+
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  markdown: "Markdown",
+  reddit: "Reddit",
+  bbcode: "BBCode",
+  csv: "CSV",
+  text: "Plain Text",
+}
+
+export const EXPORT_FILE_TYPES: Record<ExportFormat, { extension: string; contentType: string }> = {
+  markdown: { extension: "md", contentType: "text/markdown; charset=utf-8" },
+  reddit: { extension: "md", contentType: "text/markdown; charset=utf-8" },
+  bbcode: { extension: "txt", contentType: "text/plain; charset=utf-8" },
+  csv: { extension: "csv", contentType: "text/csv; charset=utf-8" },
+  text: { extension: "txt", contentType: "text/plain; charset=utf-8" },
+}
+
+// What an export needs from a part; both builder items and shared build items fit
+export interface ExportItem {
+  type: string
+  name: string
+  source: string
+  price: Price
+  url: string
+  quantity: number
+}
+
+export interface ExportOptions {
+  // Link back to the build on the site, added under the list when given
+  link?: string
+}
+
+export function isExportFormat(value: string | null): value is ExportFormat {
+  return EXPORT_FORMATS.includes(value as ExportFormat)
+}
+
+// Flatten a build into export rows, in the order the builder lists categories
+export function exportItems(build: Record<string, Omit<ExportItem, "type">[] | undefined>): ExportItem[] {
+  return COMPONENT_TYPES.flatMap((type) => (build[type] || []).map((item) => ({ ...item, type })))
+}
+
+function categoryLabel(type: string): string {
+  return COMPONENT_LABELS[type as ComponentType] ?? type
+}
+
+// Line price for a row, or the price status ("Call for Price") when there's no amount
+function linePrice(item: ExportItem): string {
+  return item.price.current ? formatAmount(lineTotal(item)) : formatPrice(item.price)
+}
+
+function itemsTotal(items: ExportItem[]): number {
+  return items.reduce((total, item) => total + lineTotal(item), 0)
+}
+
+// "Startech ৳ 45,000, Techland ৳ 12,000", for builds bought from more than one shop
+function shopTotals(items: ExportItem[]): string | null {
+  const totals = new Map<string, number>()
+  items.forEach((item) => totals.set(item.source, (totals.get(item.source) ?? 0) + lineTotal(item)))
+  if (totals.size < 2) return null
+
+  return Array.from(totals.entries())
+    .map(([shop, total]) => `${shop} ${formatAmount(total)}`)
+    .join(", ")
+}
+
+function quantitySuffix(item: ExportItem): string {
+  return item.quantity > 1 ? ` x${item.quantity}` : ""
+}
+
+// Backslash the characters that would end a link's text, split a table cell or start formatting
+function escapeMarkdown(text: string): string {
+  return text.replace(/([|[\]()<>*_~`#\\])/g, "\\$1")
+}
+
+function percentEncode(text: string, chars: RegExp): string {
+  return text.replace(chars, (char) => `%${char.charCodeAt(0).toString(16).toUpperCase().padStart(2, "0")}`)
+}
+
+// A ")" would end the link early and a space or "|" would break it or its table cell, so encode them
+function markdownUrl(url: string): string {
+  return percentEncode(url, /[()<>| ]/g)
+}
+
+// A "]" would end the [url=] tag early and whitespace would cut the link short
+function bbcodeUrl(url: string): string {
+  return percentEncode(url, /[[\]\s]/g)
+}
+
+// Square brackets in text would be read as tags
+function stripBBCode(text: string): string {
+  return text.replace(/[[\]]/g, "")
+}
+
+// Quotes cells holding a separator or line break. Text starting with "=", "+", "-" or "@" is prefixed with
+// "'" so a spreadsheet shows it rather than running it as a formula, since part names come from shop pages
+function escapeCsv(value: string | number): string {
+  if (typeof value === "number") return String(value)
+
+  const text = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+function toMarkdown(items: ExportItem[], { link }: ExportOptions): string {
+  const rows = items.map((item) => {
+    const part = `[${escapeMarkdown(item.name)}](${markdownUrl(item.url)})`
+    const source = escapeMarkdown(item.source)
+    return `| ${categoryLabel(item.type)} | ${part} | ${source} | ${item.quantity} | ${linePrice(item)} |`
+  })
+  const shops = shopTotals(items)
+
+  return [
+    "| Category | Part | Shop | Qty | Price |",
+    "| --- | --- | --- | ---: | ---: |",
+    ...rows,
+    `| | | | **Total** | **${formatAmount(itemsTotal(items))}** |`,
+    ...(shops ? ["", `Shop totals: ${shops}`] : []),
+    ...(link ? ["", `Build link: ${link}`] : []),
+  ].join("\n")
+}
+
+// The layout PCPartPicker's Reddit export uses, which the PC building subreddits are used to
+function toReddit(items: ExportItem[], { link }: ExportOptions): string {
+  const rows = items.map((item) => {
+    const part = `[${escapeMarkdown(item.name)}](${markdownUrl(item.url)})${quantitySuffix(item)}`
+    return `**${categoryLabel(item.type)}** | ${part} | ${linePrice(item)} @ ${escapeMarkdown(item.source)}`
+  })
+  const shops = shopTotals(items)
+
+  return [
+    ...(link ? [`[Build link](${markdownUrl(link)})`, ""] : []),
+    "Type|Item|Price",
+    ":----|:----|:----",
+    ...rows,
+    ...(shops ? [` | *Shop totals* | ${shops}`] : []),
+    ` | *Total* | ${formatAmount(itemsTotal(items))}`,
+  ].join("\n")
+}
+
+function toBBCode(items: ExportItem[], { link }: ExportOptions): string {
+  const rows = items.map((item) => {
+    const part = `[url=${bbcodeUrl(item.url)}]${stripBBCode(item.name)}[/url]${quantitySuffix(item)}`
+    return `[b]${categoryLabel(item.type)}:[/b] ${part} - ${linePrice(item)} @ ${stripBBCode(item.source)}`
+  })
+  const shops = shopTotals(items)
+
+  return [
+    ...rows,
+    "",
+    ...(shops ? [`[b]Shop totals:[/b] ${shops}`] : []),
+    `[b]Total:[/b] ${formatAmount(itemsTotal(items))}`,
+    ...(link ? [`[url=${bbcodeUrl(link)}]View this build[/url]`] : []),
+  ].join("\n")
+}
+
+function toCsv(items: ExportItem[], { link }: ExportOptions): string {
+  const rows = items.map((item) =>
+    [
+      categoryLabel(item.type),
+      item.name,
+      item.source,
+      item.quantity,
+      item.price.current ?? formatPrice(item.price),
+      lineTotal(item),
+      item.url,
+    ]
+      .map(escapeCsv)
+      .join(","),
+  )
+
+  return [
+    "Category,Part,Shop,Quantity,Unit Price (BDT),Line Total (BDT),Link",
+    ...rows,
+    ["Total", "", "", "", "", itemsTotal(items), link ?? ""].map(escapeCsv).join(","),
+  ].join("\n")
+}
+
+function toText(items: ExportItem[], { link }: ExportOptions): string {
+  const rows = items.map(
+    (item) =>
+      `${categoryLabel(item.type)}: ${item.name}${quantitySuffix(item)} - ${linePrice(item)} @ ${item.source}\n` +
+      `  ${item.url}`,
+  )
+  const shops = shopTotals(items)
+
+  return [
+    ...rows,
+    "",
+    ...(shops ? [`Shop totals: ${shops}`] : []),
+    `Total: ${formatAmount(itemsTotal(items))}`,
+    ...(link ? [`Build link: ${link}`] : []),
+  ].join("\n")
+}
+
+const exporters: Record<ExportFormat, (items: ExportItem[], options: ExportOptions) => string> = {
+  markdown: toMarkdown,
+  reddit: toReddit,
+  bbcode: toBBCode,
+  csv: toCsv,
+  text: toText,
+}
+
+export function exportBuild(items: ExportItem[], format: ExportFormat, options: ExportOptions = {}): string {
+  return exporters[format](items, options)
+}
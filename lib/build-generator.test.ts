@@ -0,0 +1,106 @@
+import { describe, expect, it } from "vitest"
+import type { Availability } from "./availability"
+import { generateBuild, hasIntegratedGraphics } from "./build-generator"
+import { createPrice } from "./price"
+import { estimatePower } from "./power"
+import type { Component } from "./retailers/types"
+
+function listing(name: string, amount: number, availability: Availability = "in-stock"): Component {
+  return {
+    name,
+    price: createPrice(String(amount), amount),
+    image: "",
+    availability,
+    source: "Shop",
+    url: `https://shop.test/${encodeURIComponent(name)}`,
+  }
+}
+
+const picked = (generated: ReturnType<typeof generateBuild>, type: string) => generated.build[type]?.[0]?.name
+
+describe("hasIntegratedGraphics", () => {
+  it.each([
+    ["AMD Ryzen 5 8600G Processor", true],
+    ["AMD Ryzen 7 8700G Processor", true],
+    ["AMD Ryzen 5 8400F Processor", false],
+    ["AMD Ryzen 5 5600GT Processor", true],
+    ["AMD Ryzen 5 5600X Processor", false],
+    ["AMD Ryzen 5 7600X Processor", true],
+    ["AMD Ryzen 5 7500F Processor", false],
+    ["AMD Ryzen 7 9800X3D Processor", true],
+    ["Intel Core i5-14600K Processor", true],
+    ["Intel Core i5-14600KF Processor", false],
+    ["Intel Core i5 12400F Processor", false],
+    ["Intel Core Ultra 5 245K Processor", true],
+    ["Intel Core Ultra 5 245KF Processor", false],
+  ])("%s: %s", (name, expected) => {
+    expect(hasIntegratedGraphics(name)).toBe(expected)
+  })
+})
+
+describe("generateBuild", () => {
+  const office = { budget: 100000, useCase: "office" as const, includeMonitor: false }
+  const boards = [listing("MSI PRO B650M-A WIFI AM5 DDR5", 19000), listing("ASUS TUF B650M-PLUS AM5 DDR5", 25000)]
+
+  it("gives the money saved on one part to the parts after it", () => {
+    // The CPU's share is 30,000, so 20,000 is left over and the board's allowance grows past 20,000
+    const generated = generateBuild(office, { cpu: [listing("AMD Ryzen 5 8600G", 10000)], motherboard: boards })
+    expect(picked(generated, "motherboard")).toBe("ASUS TUF B650M-PLUS AM5 DDR5")
+  })
+
+  it("takes overspending on one part back from the parts after it", () => {
+    // 10,000 over the CPU's share leaves the board 17,142 rather than 20,000
+    const generated = generateBuild(office, {
+      cpu: [listing("AMD Ryzen 7 8700G", 40000)],
+      motherboard: [listing("MSI PRO B650M-A WIFI AM5 DDR5", 16000), listing("ASUS TUF B650M-PLUS AM5 DDR5", 19000)],
+    })
+    expect(picked(generated, "motherboard")).toBe("MSI PRO B650M-A WIFI AM5 DDR5")
+  })
+
+  it("never picks a part that clashes with the ones already chosen", () => {
+    const generated = generateBuild(office, {
+      cpu: [listing("AMD Ryzen 5 8600G", 20000)],
+      motherboard: [listing("MSI B550M PRO AM4 DDR4", 20000), listing("MSI PRO B650M-A AM5 DDR5", 15000)],
+      memory: [
+        listing("Corsair Vengeance 16GB DDR4 3200MHz", 12000),
+        listing("Corsair Vengeance 16GB DDR5 6000MHz", 9000),
+      ],
+    })
+    expect(picked(generated, "motherboard")).toBe("MSI PRO B650M-A AM5 DDR5")
+    expect(picked(generated, "memory")).toBe("Corsair Vengeance 16GB DDR5 6000MHz")
+  })
+
+  it("prefers a CPU with graphics when the build has no graphics card", () => {
+    const generated = generateBuild(office, {
+      cpu: [listing("AMD Ryzen 5 7500F", 25000), listing("AMD Ryzen 5 8600G", 20000)],
+    })
+    expect(picked(generated, "cpu")).toBe("AMD Ryzen 5 8600G")
+  })
+
+  it("prefers in-stock listings over pricier ones that fit the allowance", () => {
+    const generated = generateBuild(office, {
+      cpu: [listing("AMD Ryzen 7 8700G", 28000, "out-of-stock"), listing("AMD Ryzen 5 8600G", 20000)],
+    })
+    expect(picked(generated, "cpu")).toBe("AMD Ryzen 5 8600G")
+  })
+
+  it("picks a power supply that covers the build's recommended wattage", () => {
+    const generated = generateBuild(
+      { budget: 400000, useCase: "gaming-1440p", includeMonitor: false },
+      {
+        cpu: [listing("AMD Ryzen 7 7800X3D", 60000)],
+        "video-card": [listing("ASUS TUF RTX 4090 24GB", 160000)],
+        "power-supply": [listing("Corsair CV450 450W", 9000), listing("Corsair RM1000e 1000W", 8000)],
+      },
+    )
+
+    const partsBeforePsu = { cpu: generated.build.cpu, "video-card": generated.build["video-card"] }
+    expect(estimatePower(partsBeforePsu).recommendedWatts).toBeGreaterThan(450)
+    expect(picked(generated, "power-supply")).toBe("Corsair RM1000e 1000W")
+  })
+
+  it("lists categories no listing could fill", () => {
+    const generated = generateBuild(office, { cpu: [listing("AMD Ryzen 5 8600G", 20000)] })
+    expect(generated.unfilled).toEqual(["motherboard", "memory", "storage", "case", "power-supply"])
+  })
+})
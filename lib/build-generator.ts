@@ -0,0 +1,213 @@
+// Assemble a complete, compatible build for a budget from live listings
+import { isPurchasable } from "@/lib/availability"
+import { addItem, buildTotal, type Build } from "@/lib/build"
+import { checkCompatibility, extractAttributes, type PartAttributes } from "@/lib/compatibility"
+import { estimatePower, parsePsuWatts } from "@/lib/power"
+import type { Component, ComponentType } from "@/lib/retailers/types"
+
+export type UseCase = "office" | "gaming-1080p" | "gaming-1440p" | "editing"
+
+export interface UseCaseProfile {
+  label: string
+  // Share of the budget each category gets; categories left out are skipped (office builds use
+  // the CPU's integrated graphics and its stock cooler)
+  split: Partial<Record<ComponentType, number>>
+}
+
+export const USE_CASES: Record<UseCase, UseCaseProfile> = {
+  office: {
+    label: "Office",
+    split: { cpu: 0.3, motherboard: 0.2, memory: 0.15, storage: 0.15, case: 0.08, "power-supply": 0.12 },
+  },
+  "gaming-1080p": {
+    label: "1080p Gaming",
+    split: {
+      cpu: 0.2,
+      "cpu-cooler": 0.03,
+      motherboard: 0.12,
+      memory: 0.08,
+      storage: 0.08,
+      "video-card": 0.35,
+      case: 0.06,
+      "power-supply": 0.08,
+    },
+  },
+  "gaming-1440p": {
+    label: "1440p Gaming",
+    split: {
+      cpu: 0.18,
+      "cpu-cooler": 0.04,
+      motherboard: 0.11,
+      memory: 0.08,
+      storage: 0.08,
+      "video-card": 0.4,
+      case: 0.05,
+      "power-supply": 0.06,
+    },
+  },
+  editing: {
+    label: "Editing",
+    split: {
+      cpu: 0.26,
+      "cpu-cooler": 0.05,
+      motherboard: 0.13,
+      memory: 0.13,
+      storage: 0.12,
+      "video-card": 0.2,
+      case: 0.05,
+      "power-supply": 0.06,
+    },
+  },
+}
+
+// Share of the budget set aside for a monitor when one is wanted; the rest is split as above
+const MONITOR_SHARE = 0.15
+
+// Parts that constrain the others are picked first, and the power supply once the load is known
+const PICK_ORDER: ComponentType[] = [
+  "cpu",
+  "motherboard",
+  "memory",
+  "video-card",
+  "storage",
+  "case",
+  "cpu-cooler",
+  "power-supply",
+  "monitor",
+]
+
+export interface GeneratorOptions {
+  budget: number
+  useCase: UseCase
+  includeMonitor: boolean
+}
+
+export interface GeneratedBuild {
+  build: Build
+  total: number
+  // Categories the profile wanted but no listing could fill
+  unfilled: ComponentType[]
+}
+
+// Categories to fill and their share of the budget
+export function budgetSplit({
+  useCase,
+  includeMonitor,
+}: Omit<GeneratorOptions, "budget">): Partial<Record<ComponentType, number>> {
+  const split = { ...USE_CASES[useCase].split }
+  if (!includeMonitor) return split
+
+  Object.keys(split).forEach((type) => {
+    split[type as ComponentType]! *= 1 - MONITOR_SHARE
+  })
+  return { ...split, monitor: MONITOR_SHARE }
+}
+
+// Whether a CPU can drive a display without a graphics card
+export function hasIntegratedGraphics(name: string): boolean {
+  const ryzen = name.match(/ryzen\s*[3579]\s*(?:pro\s*)?(\d)\d{3}([a-z0-9]*)/i)
+  if (ryzen) {
+    const [, series, suffix] = ryzen
+    if (/g/i.test(suffix)) return true
+    // Every Ryzen 7000 and 9000 desktop chip has basic graphics, except the F models
+    return (series === "7" || series === "9") && !/f/i.test(suffix)
+  }
+
+  // Intel F and KF chips ship without graphics
+  const intel = name.match(/(?:\bi[3579]|ultra\s*[3579])[\s-]*\d{3,5}([a-z]*)/i)
+  return Boolean(intel) && !/f/i.test(intel![1])
+}
+
+// What makes a listing a good pick beyond fitting the budget: the attributes the compatibility
+// checks need are readable, and for some categories a type of part that suits most builds
+function isPreferred(
+  type: ComponentType,
+  component: Component,
+  attributes: PartAttributes,
+  needsGraphics: boolean,
+): boolean {
+  switch (type) {
+    case "cpu":
+      return Boolean(attributes.socket) && (!needsGraphics || hasIntegratedGraphics(component.name))
+    case "motherboard":
+      return Boolean(attributes.socket)
+    case "memory":
+      return Boolean(attributes.memoryType)
+    case "storage":
+      return /ssd|nvme|m\.2/i.test(component.name)
+    case "case":
+      return Boolean(attributes.formFactor)
+    case "power-supply":
+      return Boolean(attributes.psuWatts)
+    default:
+      return true
+  }
+}
+
+// Most expensive listing that fits the allowance, taken as the best part the money buys; when
+// nothing fits, the cheapest one
+function pickByPrice(candidates: Component[], allowance: number): Component {
+  const sorted = [...candidates].sort((a, b) => a.price.current! - b.price.current!)
+  const affordable = sorted.filter((component) => component.price.current! <= allowance)
+  return affordable.length > 0 ? affordable[affordable.length - 1] : sorted[0]
+}
+
+// Fill each category in turn. Every category gets its share of what is left, so money saved on one
+// part goes to the rest and overspending on one is taken back from the rest. Listings that clash
+// with the parts already picked are never chosen; among the others, in-stock, fully described
+// and warning-free listings win
+export function generateBuild(
+  options: GeneratorOptions,
+  candidates: Partial<Record<ComponentType, Component[]>>,
+): GeneratedBuild {
+  const split = budgetSplit(options)
+  const needsGraphics = !split["video-card"]
+  const types = PICK_ORDER.filter((type) => split[type])
+
+  let build: Build = {}
+  const unfilled: ComponentType[] = []
+
+  types.forEach((type, index) => {
+    const remainingShare = types.slice(index).reduce((total, rest) => total + split[rest]!, 0)
+    const allowance = ((options.budget - buildTotal(build)) * split[type]!) / remainingShare
+
+    const scored = (candidates[type] || [])
+      .filter((component) => (component.price.current ?? 0) > 0)
+      .flatMap((component) => {
+        const issues = checkCompatibility({ ...build, [type]: [component] }).filter((issue) =>
+          issue.categories.includes(type),
+        )
+        if (issues.some((issue) => issue.severity === "error")) return []
+
+        // Lower is better: stock first, then a readable listing, then no warnings
+        const attributes = extractAttributes(type, component)
+        const tier =
+          (isPurchasable(component.availability) ? 0 : 4) +
+          (isPreferred(type, component, attributes, needsGraphics) ? 0 : 2) +
+          (issues.length === 0 ? 0 : 1)
+        return [{ component, tier }]
+      })
+
+    // Power supplies that cover the recommended wattage for the parts picked so far come first
+    const recommendedWatts = estimatePower(build).recommendedWatts
+    const adequate =
+      type === "power-supply"
+        ? scored.filter(({ component }) => (parsePsuWatts(component) ?? 0) >= recommendedWatts)
+        : []
+    const eligible = adequate.length > 0 ? adequate : scored
+
+    if (eligible.length === 0) {
+      unfilled.push(type)
+      return
+    }
+
+    const bestTier = Math.min(...eligible.map(({ tier }) => tier))
+    const component = pickByPrice(
+      eligible.filter(({ tier }) => tier === bestTier).map(({ component }) => component),
+      allowance,
+    )
+    build = addItem(build, type, component)
+  })
+
+  return { build, total: buildTotal(build), unfilled }
+}
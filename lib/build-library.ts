@@ -0,0 +1,108 @@
+// Named builds saved in localStorage, so several options can be kept side by side
+import { parseBuild, type Build } from "@/lib/build"
+
+export interface SavedBuild {
+  id: string
+  name: string
+  build: Build
+  createdAt: number
+  updatedAt: number
+}
+
+const LIBRARY_STORAGE_KEY = "pcBuildLibrary"
+// The library entry the working build was opened from; edits to the working build are saved back to it
+const ACTIVE_BUILD_STORAGE_KEY = "pcBuildActiveId"
+
+function generateId(): string {
+  return `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`
+}
+
+export function loadLibrary(): SavedBuild[] {
+  try {
+    const saved: SavedBuild[] = JSON.parse(localStorage.getItem(LIBRARY_STORAGE_KEY) || "[]")
+    return saved.map((entry) => ({ ...entry, build: parseBuild(entry.build) }))
+  } catch (error) {
+    console.error("Error reading saved builds:", error)
+    return []
+  }
+}
+
+export function saveLibrary(library: SavedBuild[]) {
+  localStorage.setItem(LIBRARY_STORAGE_KEY, JSON.stringify(library))
+}
+
+export function loadActiveBuildId(): string | null {
+  return localStorage.getItem(ACTIVE_BUILD_STORAGE_KEY)
+}
+
+export function saveActiveBuildId(id: string | null) {
+  if (id) {
+    localStorage.setItem(ACTIVE_BUILD_STORAGE_KEY, id)
+  } else {
+    localStorage.removeItem(ACTIVE_BUILD_STORAGE_KEY)
+  }
+}
+
+// Pick a name that isn't taken yet, e.g. "Gaming build (2)"
+export function uniqueName(library: SavedBuild[], name: string): string {
+  const names = new Set(library.map((entry) => entry.name))
+  if (!names.has(name)) return name
+
+  let counter = 2
+  while (names.has(`${name} (${counter})`)) counter++
+  return `${name} (${counter})`
+}
+
+export function addToLibrary(library: SavedBuild[], name: string, build: Build): [SavedBuild[], SavedBuild] {
+  const now = Date.now()
+  const entry: SavedBuild = {
+    id: generateId(),
+    name: uniqueName(library, name.trim() || "Untitled build"),
+    build,
+    createdAt: now,
+    updatedAt: now,
+  }
+  return [[entry, ...library], entry]
+}
+
+export function updateInLibrary(
+  library: SavedBuild[],
+  id: string,
+  changes: Partial<Pick<SavedBuild, "name" | "build">>,
+): SavedBuild[] {
+  return library.map((entry) => (entry.id === id ? { ...entry, ...changes, updatedAt: Date.now() } : entry))
+}
+
+// Rename an entry, numbering the name if another entry already uses it
+export function renameInLibrary(library: SavedBuild[], id: string, name: string): SavedBuild[] {
+  const others = library.filter((entry) => entry.id !== id)
+  return updateInLibrary(library, id, { name: uniqueName(others, name.trim()) })
+}
+
+export function duplicateInLibrary(library: SavedBuild[], id: string): [SavedBuild[], SavedBuild | null] {
+  const original = library.find((entry) => entry.id === id)
+  if (!original) return [library, null]
+  return addToLibrary(library, `${original.name} copy`, original.build)
+}
+
+export function removeFromLibrary(library: SavedBuild[], id: string): SavedBuild[] {
+  return library.filter((entry) => entry.id !== id)
+}
+
+// Save the working build back to the library entry it was opened from, and return the library
+export function syncActiveEntry(build: Build): SavedBuild[] {
+  const library = loadLibrary()
+  const activeId = loadActiveBuildId()
+  const active = library.find((entry) => entry.id === activeId)
+
+  if (!active) {
+    // The entry was deleted, so the working build is unsaved again
+    if (activeId) saveActiveBuildId(null)
+    return library
+  }
+  if (JSON.stringify(active.build) === JSON.stringify(build)) return library
+
+  const updated = updateInLibrary(library, active.id, { build })
+  saveLibrary(updated)
+  return updated
+}
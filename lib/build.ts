@@ -0,0 +1,124 @@
+// The PC build kept in localStorage: a list of parts per category, each with a quantity
+import { toAvailability, type Availability } from "@/lib/availability"
+import { toPrice, type Price } from "@/lib/price"
+import type { ComponentType } from "@/lib/retailers/types"
+
+export interface BuildItem {
+  type: string
+  name: string
+  price: Price
+  image: string
+  availability: Availability
+  source: string
+  url: string
+  specs?: Record<string, string>
+  quantity: number
+}
+
+export type Build = Record<string, BuildItem[]>
+
+// Categories that commonly hold more than one part; picking another one adds to the list
+export const MULTI_ITEM_CATEGORIES: ComponentType[] = ["memory", "storage", "video-card", "monitor"]
+
+export const MAX_QUANTITY = 8
+
+export const BUILD_STORAGE_KEY = "pcBuild"
+
+export function allowsMultiple(type: string): boolean {
+  return MULTI_ITEM_CATEGORIES.includes(type as ComponentType)
+}
+
+type SavedItem = Omit<BuildItem, "price" | "availability" | "quantity" | "type"> & {
+  type?: string
+  price: Price | string
+  availability: Availability | string
+  quantity?: number
+}
+
+function normalizeItem(type: string, item: SavedItem): BuildItem {
+  return {
+    ...item,
+    type,
+    image: item.image || "",
+    price: toPrice(item.price),
+    availability: toAvailability(item.availability),
+    quantity: Math.min(MAX_QUANTITY, Math.max(1, Math.floor(item.quantity ?? 1))),
+  }
+}
+
+// Read a saved build, upgrading the old one-part-per-category shape and string prices
+export function parseBuild(saved: unknown): Build {
+  if (!saved || typeof saved !== "object") return {}
+
+  const build: Build = {}
+  Object.entries(saved as Record<string, SavedItem | SavedItem[] | null>).forEach(([type, value]) => {
+    const items = (Array.isArray(value) ? value : value ? [value] : []).map((item) => normalizeItem(type, item))
+    if (items.length > 0) build[type] = items
+  })
+  return build
+}
+
+export function loadBuild(): Build {
+  try {
+    return parseBuild(JSON.parse(localStorage.getItem(BUILD_STORAGE_KEY) || "{}"))
+  } catch (error) {
+    console.error("Error reading saved build:", error)
+    return {}
+  }
+}
+
+export function saveBuild(build: Build) {
+  localStorage.setItem(BUILD_STORAGE_KEY, JSON.stringify(build))
+}
+
+// Add a part to its category; picking a part already in the list bumps its quantity, and
+// single-part categories like the CPU are replaced instead
+export function addItem(build: Build, type: string, component: Omit<BuildItem, "quantity" | "type">): Build {
+  const items = build[type] || []
+  const existing = items.find((item) => item.url === component.url)
+
+  if (existing) {
+    return setQuantity(build, type, component.url, existing.quantity + (allowsMultiple(type) ? 1 : 0))
+  }
+
+  const item: BuildItem = { ...component, type, quantity: 1 }
+  return { ...build, [type]: allowsMultiple(type) ? [...items, item] : [item] }
+}
+
+// Swap one part for another (e.g. the same item from a different shop), keeping its quantity
+export function replaceItem(build: Build, type: string, url: string, component: Omit<BuildItem, "quantity" | "type">): Build {
+  const items = build[type] || []
+  return {
+    ...build,
+    [type]: items.map((item) => (item.url === url ? { ...component, type, quantity: item.quantity } : item)),
+  }
+}
+
+export function setQuantity(build: Build, type: string, url: string, quantity: number): Build {
+  const clamped = Math.min(MAX_QUANTITY, Math.max(1, quantity))
+  return {
+    ...build,
+    [type]: (build[type] || []).map((item) => (item.url === url ? { ...item, quantity: clamped } : item)),
+  }
+}
+
+export function removeItem(build: Build, type: string, url: string): Build {
+  const items = (build[type] || []).filter((item) => item.url !== url)
+  const updated = { ...build, [type]: items }
+  if (items.length === 0) delete updated[type]
+  return updated
+}
+
+export function buildItems(build: Build): BuildItem[] {
+  return Object.values(build).flat()
+}
+
+// Price of the line, or 0 when the part has no listed price
+export function lineTotal(item: { price: Price; quantity: number }): number {
+  return (item.price.current ?? 0) * item.quantity
+}
+
+// What the build costs as picked, leaving out parts without a listed price
+export function buildTotal(build: Build): number {
+  return buildItems(build).reduce((total, item) => total + lineTotal(item), 0)
+}
@@ -0,0 +1,34 @@
+import crypto from "crypto"
+import type { ExpiryPolicy, StoredBuild } from "./types"
+
+const HOUR = 60 * 60 * 1000
+const DAY = 24 * HOUR
+
+// Links posted in groups get reopened for months, so expiry counts from the last visit, not creation
+export const DEFAULT_EXPIRY_POLICY: ExpiryPolicy = {
+  idleTtlMs: 180 * DAY,
+  touchIntervalMs: DAY,
+  purgeIntervalMs: HOUR,
+}
+
+// Ids are base64url, so anything else can't be a build; checked before an id is used as a file name or key
+const BUILD_ID_PATTERN = /^[A-Za-z0-9_-]{1,32}$/
+
+export function isBuildId(id: string): boolean {
+  return BUILD_ID_PATTERN.test(id)
+}
+
+// Function to generate a short, unique ID
+export function generateShortId(): string {
+  // Generate 6 random bytes and convert to a base64 string
+  return crypto.randomBytes(6).toString("base64url")
+}
+
+export function isExpired(build: StoredBuild, policy: ExpiryPolicy, now = Date.now()): boolean {
+  return now - build.accessedAt > policy.idleTtlMs
+}
+
+// Whether opening the build now should be written back as a new `accessedAt`
+export function needsTouch(build: StoredBuild, policy: ExpiryPolicy, now = Date.now()): boolean {
+  return now - build.accessedAt > policy.touchIntervalMs
+}
@@ -0,0 +1,107 @@
+import { promises as fs } from "fs"
+import path from "path"
+import { DEFAULT_EXPIRY_POLICY, generateShortId, isBuildId, isExpired, needsTouch } from "./expiry"
+import type { BuildRepository, ExpiryPolicy, StoredBuild } from "./types"
+
+// Keeps one JSON file per build in a directory, so share links survive restarts and deploys and saving
+// or opening a build only ever touches its own file
+export function createFileBuildRepository(
+  directory: string,
+  policy: ExpiryPolicy = DEFAULT_EXPIRY_POLICY,
+): BuildRepository {
+  let purgedAt = Date.now()
+  // Numbers temporary files, so two writes of the same build don't share one
+  let writes = 0
+
+  const buildPath = (id: string) => path.join(directory, `${id}.json`)
+
+  const read = async (id: string): Promise<StoredBuild | null> => {
+    try {
+      return JSON.parse(await fs.readFile(buildPath(id), "utf8"))
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return null
+      throw error
+    }
+  }
+
+  const remove = async (id: string) => {
+    try {
+      await fs.unlink(buildPath(id))
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error
+    }
+  }
+
+  // Write to a temporary file first so a crash mid-write can't leave a truncated build behind
+  const writeTemp = async (build: StoredBuild) => {
+    const tempPath = `${buildPath(build.id)}.${process.pid}.${writes++}.tmp`
+    await fs.writeFile(tempPath, JSON.stringify(build))
+    return tempPath
+  }
+
+  const save = async (build: StoredBuild) => {
+    await fs.rename(await writeTemp(build), buildPath(build.id))
+  }
+
+  const purge = async () => {
+    purgedAt = Date.now()
+    let removed = 0
+    const files = await fs.readdir(directory).catch(() => [])
+    for (const file of files) {
+      if (!file.endsWith(".json")) continue
+      const id = file.slice(0, -".json".length)
+      const build = await read(id).catch(() => null)
+      if (build && isExpired(build, policy)) {
+        await remove(id)
+        removed++
+      }
+    }
+    return removed
+  }
+
+  return {
+    async create(data) {
+      await fs.mkdir(directory, { recursive: true })
+      if (Date.now() - purgedAt > policy.purgeIntervalMs) {
+        purge().catch((error) => console.error("Error purging expired builds:", error))
+      }
+
+      const now = Date.now()
+      for (;;) {
+        const build: StoredBuild = { id: generateShortId(), data, createdAt: now, accessedAt: now }
+        const tempPath = await writeTemp(build)
+        try {
+          // Linking fails when the id is taken, so two requests can never claim the same one
+          await fs.link(tempPath, buildPath(build.id))
+          return build
+        } catch (error) {
+          if ((error as NodeJS.ErrnoException).code !== "EEXIST") throw error
+        } finally {
+          await fs.unlink(tempPath)
+        }
+      }
+    },
+
+    async get(id) {
+      if (!isBuildId(id)) return null
+
+      const build = await read(id)
+      if (!build) return null
+
+      if (isExpired(build, policy)) {
+        await remove(id)
+        return null
+      }
+
+      if (needsTouch(build, policy)) {
+        build.accessedAt = Date.now()
+        await save(build)
+      }
+      return build
+    },
+
+    purgeExpired() {
+      return purge()
+    },
+  }
+}
@@ -0,0 +1,53 @@
+// Storage for shared builds behind /build?build=<id> links
+import path from "path"
+import { isWritable } from "@/lib/data-directory"
+import { createFileBuildRepository } from "./file"
+import { createMemoryBuildRepository } from "./memory"
+import { createRedisBuildRepository, type RedisRestConfig } from "./redis"
+import type { BuildRepository } from "./types"
+
+export type { BuildRepository, ExpiryPolicy, StoredBuild } from "./types"
+export type { RedisRestConfig } from "./redis"
+export { DEFAULT_EXPIRY_POLICY, isBuildId, isExpired } from "./expiry"
+export { createFileBuildRepository } from "./file"
+export { createMemoryBuildRepository } from "./memory"
+export { createRedisBuildRepository } from "./redis"
+
+let repository: BuildRepository | null = null
+
+// Upstash's own variable names, or the ones Vercel KV sets up
+function redisConfig(): RedisRestConfig | null {
+  const url = process.env.UPSTASH_REDIS_REST_URL || process.env.KV_REST_API_URL
+  const token = process.env.UPSTASH_REDIS_REST_TOKEN || process.env.KV_REST_API_TOKEN
+  return url && token ? { url, token } : null
+}
+
+// BUILD_STORE=redis (or any Upstash / Vercel KV credentials) shares builds between every instance, which
+// serverless deploys need. BUILD_STORE=memory keeps builds in process (tests, throwaway previews).
+// Otherwise builds are files in BUILD_STORE_PATH, which should be a persistent volume in production. When
+// the default `.data/builds` can't be written to, as on Vercel, builds fall back to memory with a warning
+export function getBuildRepository(): BuildRepository {
+  if (repository) return repository
+
+  const redis = redisConfig()
+  if (process.env.BUILD_STORE === "redis" || (!process.env.BUILD_STORE && redis)) {
+    if (!redis) {
+      throw new Error("BUILD_STORE=redis needs UPSTASH_REDIS_REST_URL and UPSTASH_REDIS_REST_TOKEN to be set")
+    }
+    repository = createRedisBuildRepository(redis)
+  } else if (process.env.BUILD_STORE === "memory") {
+    repository = createMemoryBuildRepository()
+  } else {
+    const directory = process.env.BUILD_STORE_PATH || path.join(process.cwd(), ".data", "builds")
+    if (isWritable(directory)) {
+      repository = createFileBuildRepository(directory)
+    } else if (process.env.BUILD_STORE_PATH) {
+      throw new Error(`BUILD_STORE_PATH ${directory} is not a writable directory`)
+    } else {
+      console.warn(`Can't write shared builds to ${directory}; keeping them in memory, so links won't survive restarts`)
+      repository = createMemoryBuildRepository()
+    }
+  }
+
+  return repository
+}
@@ -0,0 +1,51 @@
+import { DEFAULT_EXPIRY_POLICY, generateShortId, isExpired, needsTouch } from "./expiry"
+import type { BuildRepository, ExpiryPolicy, StoredBuild } from "./types"
+
+// Keeps builds in a Map for the life of the process; used for tests and local development
+export function createMemoryBuildRepository(policy: ExpiryPolicy = DEFAULT_EXPIRY_POLICY): BuildRepository {
+  const builds = new Map<string, StoredBuild>()
+  let purgedAt = Date.now()
+
+  const purge = () => {
+    let removed = 0
+    builds.forEach((build, id) => {
+      if (isExpired(build, policy)) {
+        builds.delete(id)
+        removed++
+      }
+    })
+    purgedAt = Date.now()
+    return removed
+  }
+
+  return {
+    async create(data) {
+      if (Date.now() - purgedAt > policy.purgeIntervalMs) purge()
+
+      let id = generateShortId()
+      while (builds.has(id)) id = generateShortId()
+
+      const now = Date.now()
+      const build: StoredBuild = { id, data, createdAt: now, accessedAt: now }
+      builds.set(id, build)
+      return build
+    },
+
+    async get(id) {
+      const build = builds.get(id)
+      if (!build) return null
+
+      if (isExpired(build, policy)) {
+        builds.delete(id)
+        return null
+      }
+
+      if (needsTouch(build, policy)) build.accessedAt = Date.now()
+      return build
+    },
+
+    async purgeExpired() {
+      return purge()
+    },
+  }
+}
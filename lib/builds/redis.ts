@@ -0,0 +1,67 @@
+import { DEFAULT_EXPIRY_POLICY, generateShortId, isBuildId, needsTouch } from "./expiry"
+import type { BuildRepository, ExpiryPolicy, StoredBuild } from "./types"
+
+export interface RedisRestConfig {
+  // REST endpoint and token of an Upstash or Vercel KV database
+  url: string
+  token: string
+}
+
+const KEY_PREFIX = "build:"
+
+// Keeps builds in Redis through the Upstash REST API, so every serverless instance sees the same links.
+// Redis drops a key once its TTL runs out, and the TTL is renewed whenever `accessedAt` is, so expiry
+// needs no purging
+export function createRedisBuildRepository(
+  config: RedisRestConfig,
+  policy: ExpiryPolicy = DEFAULT_EXPIRY_POLICY,
+): BuildRepository {
+  const ttlSeconds = String(Math.ceil(policy.idleTtlMs / 1000))
+
+  const command = async <T>(...args: string[]): Promise<T> => {
+    const response = await fetch(config.url, {
+      method: "POST",
+      headers: { Authorization: `Bearer ${config.token}`, "Content-Type": "application/json" },
+      body: JSON.stringify(args),
+      cache: "no-store",
+    })
+
+    const body: { result?: T; error?: string } = await response.json().catch(() => ({}))
+    if (!response.ok || body.error) {
+      throw new Error(`Redis ${args[0]} failed: ${body.error || `HTTP ${response.status}`}`)
+    }
+    return body.result as T
+  }
+
+  return {
+    async create(data) {
+      const now = Date.now()
+      for (;;) {
+        const build: StoredBuild = { id: generateShortId(), data, createdAt: now, accessedAt: now }
+        // NX only sets a key that doesn't exist yet, so a taken id answers null and another is tried
+        const key = KEY_PREFIX + build.id
+        const stored = await command<string | null>("SET", key, JSON.stringify(build), "NX", "EX", ttlSeconds)
+        if (stored) return build
+      }
+    },
+
+    async get(id) {
+      if (!isBuildId(id)) return null
+
+      const value = await command<string | null>("GET", KEY_PREFIX + id)
+      if (!value) return null
+
+      const build: StoredBuild = JSON.parse(value)
+      if (needsTouch(build, policy)) {
+        build.accessedAt = Date.now()
+        // XX so a build deleted meanwhile isn't brought back
+        await command("SET", KEY_PREFIX + id, JSON.stringify(build), "XX", "EX", ttlSeconds)
+      }
+      return build
+    },
+
+    async purgeExpired() {
+      return 0
+    },
+  }
+}
@@ -0,0 +1,153 @@
+import { promises as fs } from "fs"
+import os from "os"
+import path from "path"
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { createFileBuildRepository } from "./file"
+import { createMemoryBuildRepository } from "./memory"
+import { createRedisBuildRepository } from "./redis"
+import type { BuildRepository, ExpiryPolicy } from "./types"
+
+const MINUTE = 60 * 1000
+
+const policy: ExpiryPolicy = { idleTtlMs: 60 * MINUTE, touchIntervalMs: MINUTE, purgeIntervalMs: 10 * MINUTE }
+
+// Just enough of the Upstash REST API for the Redis repository: SET with NX/XX and EX, and GET
+function fakeUpstash() {
+  const keys = new Map<string, { value: string; expiresAt: number }>()
+  const reply = (result: string | null) => new Response(JSON.stringify({ result }))
+
+  const fetch = vi.fn(async (_url: string, init: RequestInit) => {
+    const [name, key, value, ...options] = JSON.parse(String(init.body)) as string[]
+    const entry = keys.get(key)
+    const live = entry && entry.expiresAt > Date.now() ? entry : undefined
+
+    if (name === "GET") return reply(live?.value ?? null)
+    if ((options.includes("NX") && live) || (options.includes("XX") && !live)) return reply(null)
+
+    const seconds = Number(options[options.indexOf("EX") + 1])
+    keys.set(key, { value, expiresAt: Date.now() + seconds * 1000 })
+    return reply("OK")
+  })
+
+  return { fetch, keys }
+}
+
+let directory: string
+
+beforeEach(async () => {
+  vi.useFakeTimers({ toFake: ["Date"] })
+  vi.setSystemTime(new Date("2025-01-01T00:00:00Z"))
+  directory = await fs.mkdtemp(path.join(os.tmpdir(), "builds-"))
+})
+
+afterEach(async () => {
+  vi.useRealTimers()
+  vi.unstubAllGlobals()
+  await fs.rm(directory, { recursive: true, force: true })
+})
+
+const backends: [string, () => BuildRepository][] = [
+  ["memory", () => createMemoryBuildRepository(policy)],
+  ["file", () => createFileBuildRepository(directory, policy)],
+  [
+    "redis",
+    () => {
+      vi.stubGlobal("fetch", fakeUpstash().fetch)
+      return createRedisBuildRepository({ url: "https://redis.test", token: "token" }, policy)
+    },
+  ],
+]
+
+describe.each(backends)("%s build repository", (_name, createRepository) => {
+  it("stores a build under a new id", async () => {
+    const repository = createRepository()
+    const first = await repository.create({ cpu: "Ryzen" })
+    const second = await repository.create({ cpu: "Core" })
+
+    expect(first.id).not.toBe(second.id)
+    expect(first.createdAt).toBe(Date.now())
+    expect(first.accessedAt).toBe(first.createdAt)
+    expect((await repository.get(first.id))?.data).toEqual({ cpu: "Ryzen" })
+    expect((await repository.get(second.id))?.data).toEqual({ cpu: "Core" })
+  })
+
+  it("returns null for unknown and malformed ids", async () => {
+    const repository = createRepository()
+    expect(await repository.get("missing")).toBeNull()
+    expect(await repository.get("../../etc/passwd")).toBeNull()
+  })
+
+  it("only records an access once the touch interval has passed", async () => {
+    const repository = createRepository()
+    const { id, createdAt } = await repository.create({})
+
+    vi.advanceTimersByTime(MINUTE / 2)
+    expect((await repository.get(id))?.accessedAt).toBe(createdAt)
+
+    vi.advanceTimersByTime(MINUTE)
+    expect((await repository.get(id))?.accessedAt).toBe(Date.now())
+  })
+
+  it("expires builds nobody opened within the idle TTL", async () => {
+    const repository = createRepository()
+    const { id } = await repository.create({})
+
+    vi.advanceTimersByTime(policy.idleTtlMs + MINUTE)
+    expect(await repository.get(id)).toBeNull()
+  })
+
+  it("keeps builds that keep being opened", async () => {
+    const repository = createRepository()
+    const { id } = await repository.create({})
+
+    for (let day = 0; day < 3; day++) {
+      vi.advanceTimersByTime(policy.idleTtlMs - MINUTE)
+      expect(await repository.get(id)).not.toBeNull()
+    }
+  })
+})
+
+describe.each(backends.slice(0, 2))("%s build repository purging", (_name, createRepository) => {
+  it("drops expired builds and reports how many", async () => {
+    const repository = createRepository()
+    await repository.create({})
+    vi.advanceTimersByTime(policy.idleTtlMs / 2)
+    const recent = await repository.create({})
+
+    vi.advanceTimersByTime(policy.idleTtlMs / 2 + MINUTE)
+    expect(await repository.purgeExpired()).toBe(1)
+    expect(await repository.get(recent.id)).not.toBeNull()
+  })
+})
+
+describe("memory build repository", () => {
+  it("purges when a build is created after the purge interval", async () => {
+    const repository = createMemoryBuildRepository(policy)
+    await repository.create({})
+
+    vi.advanceTimersByTime(policy.idleTtlMs + MINUTE)
+    await repository.create({})
+    expect(await repository.purgeExpired()).toBe(0)
+  })
+})
+
+describe("file build repository", () => {
+  it("purges in the background when a build is created after the purge interval", async () => {
+    const repository = createFileBuildRepository(directory, policy)
+    const expired = await repository.create({})
+
+    vi.advanceTimersByTime(policy.idleTtlMs + MINUTE)
+    const fresh = await repository.create({})
+
+    await vi.waitFor(async () => expect(await fs.readdir(directory)).toEqual([`${fresh.id}.json`]))
+    expect(expired.id).not.toBe(fresh.id)
+  })
+
+  it("writes one file per build", async () => {
+    const repository = createFileBuildRepository(directory, policy)
+    const builds = await Promise.all(Array.from({ length: 5 }, (_, i) => repository.create({ i })))
+
+    const files = await fs.readdir(directory)
+    expect(files.sort()).toEqual(builds.map((build) => `${build.id}.json`).sort())
+  })
+})
@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest"
+import { createPrice } from "@/lib/price"
+import { sharedBuildSchema } from "./schema"
+
+const part = {
+  name: "AMD Ryzen 5 7600",
+  price: createPrice("20,500", 20500),
+  image: "https://shop.test/ryzen.jpg",
+  source: "Shop",
+  url: "https://shop.test/ryzen-5-7600",
+  availability: "in-stock",
+  specs: { Socket: "AM5", Cores: "6" },
+  quantity: 1,
+}
+
+describe("sharedBuildSchema", () => {
+  it("keeps each part's image and specs", () => {
+    const parsed = sharedBuildSchema.parse({ cpu: [part] })
+    expect(parsed.cpu![0]).toMatchObject({ image: part.image, specs: part.specs })
+  })
+
+  it("accepts parts without an image or specs", () => {
+    const bare = { ...part, image: undefined, specs: undefined }
+    expect(sharedBuildSchema.safeParse({ cpu: [bare] }).success).toBe(true)
+  })
+
+  it("rejects non-https images and oversized spec lists", () => {
+    expect(sharedBuildSchema.safeParse({ cpu: [{ ...part, image: "http://shop.test/a.jpg" }] }).success).toBe(false)
+    expect(sharedBuildSchema.safeParse({ cpu: [{ ...part, image: "x".repeat(2001) }] }).success).toBe(false)
+
+    const specs = Object.fromEntries(Array.from({ length: 31 }, (_, i) => [`Spec ${i}`, "value"]))
+    expect(sharedBuildSchema.safeParse({ cpu: [{ ...part, specs }] }).success).toBe(false)
+  })
+})
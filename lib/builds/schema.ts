@@ -0,0 +1,78 @@
+// Shape of a build shared through POST /api/builds, used by the route and the builder page
+import { z } from "zod"
+import type { Availability } from "@/lib/availability"
+import { MAX_QUANTITY } from "@/lib/build"
+import type { PriceStatus } from "@/lib/price"
+import { COMPONENT_TYPES } from "@/lib/retailers/types"
+
+// Largest request body the builds route accepts; room for a full build with images and specs
+export const MAX_SHARED_BUILD_BYTES = 64 * 1024
+
+const amountSchema = z.number().nonnegative().max(100_000_000).nullable()
+
+const priceSchema = z.object({
+  current: amountSchema,
+  regular: amountSchema,
+  currency: z.literal("BDT"),
+  discountPercent: z.number().min(0).max(100).nullable(),
+  raw: z.string().max(100),
+  status: z.enum(["priced", "call-for-price", "tba", "upcoming"]) satisfies z.ZodType<PriceStatus>,
+})
+
+const availabilitySchema = z.enum([
+  "in-stock",
+  "limited-stock",
+  "pre-order",
+  "upcoming",
+  "call-for-price",
+  "out-of-stock",
+]) satisfies z.ZodType<Availability>
+
+// Product images are shown straight from the shops, so only https links are kept
+const imageSchema = z
+  .string()
+  .max(2000)
+  .url()
+  .refine((url) => /^https:\/\//i.test(url), "Must be an https link")
+
+// Specs read from the listing name, e.g. { Socket: "AM5", Cores: "6" }
+const specsSchema = z
+  .record(z.string().trim().min(1).max(50), z.string().max(200))
+  .refine((specs) => Object.keys(specs).length <= 30, "At most 30 specs per part")
+
+export const sharedComponentSchema = z.object({
+  name: z.string().trim().min(1).max(300),
+  price: priceSchema,
+  image: imageSchema.optional(),
+  source: z.string().trim().min(1).max(50),
+  url: z
+    .string()
+    .max(2000)
+    .url()
+    .refine((url) => /^https?:\/\//i.test(url), "Must be an http(s) link"),
+  availability: availabilitySchema,
+  specs: specsSchema.optional(),
+})
+
+export const sharedItemSchema = sharedComponentSchema.extend({
+  quantity: z.number().int().min(1).max(MAX_QUANTITY).default(1),
+})
+
+// Up to 8 parts per category; links shared before builds held lists carry a single part
+const sharedCategorySchema = z.preprocess(
+  (value) => (Array.isArray(value) || !value ? value : [value]),
+  z.array(sharedItemSchema).min(1).max(8),
+)
+
+export const sharedBuildSchema = z
+  .record(z.enum(COMPONENT_TYPES), sharedCategorySchema)
+  .refine((build) => Object.keys(build).length > 0, "A shared build needs at least one component")
+
+export type SharedComponent = z.infer<typeof sharedComponentSchema>
+export type SharedItem = z.infer<typeof sharedItemSchema>
+export type SharedBuild = z.infer<typeof sharedBuildSchema>
+
+// Flatten zod issues into `{ path, message }` pairs for API error responses
+export function formatIssues(error: z.ZodError): { path: string; message: string }[] {
+  return error.issues.map((issue) => ({ path: issue.path.join("."), message: issue.message }))
+}
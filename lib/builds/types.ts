@@ -0,0 +1,28 @@
+// Shared shapes for shared-build storage
+
+// A build saved behind a short share link
+export interface StoredBuild<T = unknown> {
+  id: string
+  data: T
+  createdAt: number // ms since epoch
+  accessedAt: number // last time the link was opened, ms since epoch
+}
+
+// When a stored build stops resolving
+export interface ExpiryPolicy {
+  // Drop builds nobody has opened for this long
+  idleTtlMs: number
+  // Only rewrite `accessedAt` when it is older than this, so popular links don't cause a write per view
+  touchIntervalMs: number
+  // Creating a build also drops expired ones, at most this often
+  purgeIntervalMs: number
+}
+
+// Storage backend for shared builds
+export interface BuildRepository {
+  create(data: unknown): Promise<StoredBuild>
+  // Returns null for unknown or expired ids, and records the access otherwise
+  get(id: string): Promise<StoredBuild | null>
+  // Remove every expired build, returning how many were dropped
+  purgeExpired(): Promise<number>
+}
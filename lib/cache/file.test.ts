@@ -0,0 +1,66 @@
+import { promises as fs } from "fs"
+import os from "os"
+import path from "path"
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { createFileCacheStore } from "./file"
+
+const MINUTE = 60 * 1000
+
+let directory: string
+
+beforeEach(async () => {
+  vi.useFakeTimers({ toFake: ["Date"] })
+  vi.setSystemTime(new Date("2025-01-01T00:00:00Z"))
+  directory = await fs.mkdtemp(path.join(os.tmpdir(), "scrape-cache-"))
+})
+
+afterEach(async () => {
+  vi.useRealTimers()
+  await fs.rm(directory, { recursive: true, force: true })
+})
+
+const entry = (value: string, lifetimeMs: number) => ({
+  value,
+  cachedAt: Date.now(),
+  expiresAt: Date.now() + lifetimeMs,
+})
+
+describe("file cache store", () => {
+  it("reads back an entry until it expires", async () => {
+    const store = createFileCacheStore(directory)
+    await store.set("https://shop.test/search?q=ryzen", entry("listing", MINUTE))
+
+    expect((await store.get("https://shop.test/search?q=ryzen"))?.value).toBe("listing")
+    vi.advanceTimersByTime(2 * MINUTE)
+    expect(await store.get("https://shop.test/search?q=ryzen")).toBeNull()
+  })
+
+  it("clears out expired entries when writing after the sweep interval", async () => {
+    const store = createFileCacheStore(directory, 5 * MINUTE)
+    await store.set("old", entry("old", MINUTE))
+    await store.set("kept", entry("kept", 60 * MINUTE))
+
+    vi.advanceTimersByTime(10 * MINUTE)
+    await store.set("new", entry("new", MINUTE))
+
+    await vi.waitFor(async () => expect(await fs.readdir(directory)).toHaveLength(2))
+    expect((await store.get("kept"))?.value).toBe("kept")
+    expect((await store.get("new"))?.value).toBe("new")
+  })
+
+  it("drops the oldest entries beyond the size limit when sweeping", async () => {
+    const store = createFileCacheStore(directory, 5 * MINUTE, 2)
+    await store.set("oldest", entry("oldest", 60 * MINUTE))
+    vi.advanceTimersByTime(MINUTE)
+    await store.set("older", entry("older", 60 * MINUTE))
+    vi.advanceTimersByTime(MINUTE)
+    await store.set("old", entry("old", 60 * MINUTE))
+
+    vi.advanceTimersByTime(5 * MINUTE)
+    await store.set("new", entry("new", 60 * MINUTE))
+
+    await vi.waitFor(async () => expect(await fs.readdir(directory)).toHaveLength(2))
+    expect(await store.get("older")).toBeNull()
+    expect((await store.get("new"))?.value).toBe("new")
+  })
+})
@@ -0,0 +1,97 @@
+import { createHash } from "crypto"
+import { promises as fs } from "fs"
+import path from "path"
+import type { CacheEntry, CacheStore } from "./types"
+
+// How often a write also clears out expired entries
+const SWEEP_INTERVAL = 10 * 60 * 1000
+
+// Entries kept after a sweep; beyond this the oldest scrapes are dropped
+const MAX_ENTRIES = 5000
+
+// Keeps one JSON file per entry in a directory, so cached scrapes survive restarts and a write only
+// ever touches its own entry
+export function createFileCacheStore(
+  directory: string,
+  sweepIntervalMs = SWEEP_INTERVAL,
+  maxEntries = MAX_ENTRIES,
+): CacheStore {
+  // Numbers temporary files, so two writes of the same entry don't share one
+  let writes = 0
+  let sweptAt = Date.now()
+
+  // Keys are URLs, so hash them into safe file names
+  const entryPath = (key: string) => path.join(directory, `${createHash("sha1").update(key).digest("hex")}.json`)
+
+  const remove = async (filePath: string) => {
+    try {
+      await fs.unlink(filePath)
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error
+    }
+  }
+
+  // Every distinct search URL leaves an entry behind, so drop the ones past their stale window, and then
+  // the oldest scrapes while there are more than `maxEntries`
+  const sweep = async () => {
+    sweptAt = Date.now()
+    const files = await fs.readdir(directory).catch(() => [])
+    const kept: { filePath: string; cachedAt: number }[] = []
+
+    for (const file of files) {
+      if (!file.endsWith(".json")) continue
+      const filePath = path.join(directory, file)
+      try {
+        const entry: CacheEntry = JSON.parse(await fs.readFile(filePath, "utf8"))
+        if (entry.expiresAt <= Date.now()) await remove(filePath)
+        else kept.push({ filePath, cachedAt: entry.cachedAt })
+      } catch (error) {
+        if (error instanceof SyntaxError) await remove(filePath)
+        else if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error
+      }
+    }
+
+    kept.sort((a, b) => a.cachedAt - b.cachedAt)
+    for (const { filePath } of kept.slice(0, Math.max(0, kept.length - maxEntries))) {
+      await remove(filePath)
+    }
+  }
+
+  return {
+    async get<T>(key: string) {
+      const filePath = entryPath(key)
+      let entry: CacheEntry<T>
+      try {
+        entry = JSON.parse(await fs.readFile(filePath, "utf8"))
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") return null
+        // A corrupt entry is just a miss; it is overwritten by the next scrape
+        if (error instanceof SyntaxError) return null
+        throw error
+      }
+
+      if (entry.expiresAt <= Date.now()) {
+        await remove(filePath)
+        return null
+      }
+      return entry
+    },
+
+    // Write to a temporary file first so a crash mid-write can't leave a truncated entry behind
+    async set(key, entry) {
+      const filePath = entryPath(key)
+      await fs.mkdir(directory, { recursive: true })
+      const tempPath = `${filePath}.${process.pid}.${writes++}.tmp`
+      await fs.writeFile(tempPath, JSON.stringify(entry))
+      await fs.rename(tempPath, filePath)
+
+      if (Date.now() - sweptAt > sweepIntervalMs) {
+        sweep().catch((error) => console.error("Error sweeping the scrape cache:", error))
+      }
+    },
+
+    delete(key) {
+      return remove(entryPath(key))
+    },
+  }
+}
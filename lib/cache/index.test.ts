@@ -0,0 +1,35 @@
+import { promises as fs } from "fs"
+import os from "os"
+import path from "path"
+import { afterEach, describe, expect, it, vi } from "vitest"
+
+afterEach(() => {
+  vi.unstubAllEnvs()
+  vi.restoreAllMocks()
+  vi.resetModules()
+})
+
+describe("getScrapeCache", () => {
+  it("keeps the cache in memory when its directory can't be written to", async () => {
+    const parent = await fs.mkdtemp(path.join(os.tmpdir(), "scrape-cache-"))
+    // A file where the directory should be, so it can't be created
+    const blocked = path.join(parent, "blocked")
+    await fs.writeFile(blocked, "")
+    vi.stubEnv("SCRAPE_CACHE", "")
+    vi.stubEnv("SCRAPE_CACHE_PATH", path.join(blocked, "cache"))
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {})
+    const error = vi.spyOn(console, "error").mockImplementation(() => {})
+
+    try {
+      const { getScrapeCache } = await import(".")
+      const cache = getScrapeCache()!
+      await cache.set("key", { value: "listing", cachedAt: Date.now(), expiresAt: Date.now() + 60_000 })
+
+      expect((await cache.get("key"))?.value).toBe("listing")
+      expect(warn).toHaveBeenCalledOnce()
+      expect(error).not.toHaveBeenCalled()
+    } finally {
+      await fs.rm(parent, { recursive: true, force: true })
+    }
+  })
+})
@@ -0,0 +1,121 @@
+// Server-side cache for scraped retailer pages, so popular searches don't hit every shop for every user
+import path from "path"
+import { isWritable } from "@/lib/data-directory"
+import { createFileCacheStore } from "./file"
+import { createMemoryCacheStore } from "./memory"
+import type { CachePolicy, CacheStore } from "./types"
+
+export type { CacheEntry, CachePolicy, CacheStore } from "./types"
+export { createFileCacheStore } from "./file"
+export { createMemoryCacheStore } from "./memory"
+
+// Kinds of page scraped, each with its own freshness
+export type CacheRoute = "search" | "category" | "detail"
+
+const MINUTE = 60 * 1000
+const HOUR = 60 * MINUTE
+
+// Prices move faster than spec sheets, and searches are the most prices people look at
+export const DEFAULT_CACHE_POLICIES: Record<CacheRoute, CachePolicy> = {
+  search: { ttlMs: 10 * MINUTE, staleMs: HOUR },
+  category: { ttlMs: 30 * MINUTE, staleMs: 6 * HOUR },
+  detail: { ttlMs: 6 * HOUR, staleMs: 24 * HOUR },
+}
+
+// A value and when it was scraped, which is now unless it came from the cache
+export interface Cached<T> {
+  value: T
+  cachedAt: number // ms since epoch
+}
+
+let store: CacheStore | null | undefined
+
+// SCRAPE_CACHE=memory keeps the cache in process, SCRAPE_CACHE=off disables it, and anything else uses a
+// directory of JSON files at SCRAPE_CACHE_PATH, which should point at a persistent volume in production. When
+// that directory can't be written to, as on read-only or serverless deploys, the cache is kept in memory
+export function getScrapeCache(): CacheStore | null {
+  if (store === undefined) {
+    switch (process.env.SCRAPE_CACHE) {
+      case "off":
+        store = null
+        break
+      case "memory":
+        store = createMemoryCacheStore()
+        break
+      default: {
+        const directory = process.env.SCRAPE_CACHE_PATH || path.join(process.cwd(), ".data", "scrape-cache")
+        if (isWritable(directory)) {
+          store = createFileCacheStore(directory)
+        } else {
+          console.warn(`Can't write the scrape cache to ${directory}; keeping it in memory instead`)
+          store = createMemoryCacheStore()
+        }
+      }
+    }
+  }
+
+  return store
+}
+
+// SCRAPE_CACHE_TTL_<ROUTE> and SCRAPE_CACHE_STALE_<ROUTE>, in seconds, override the defaults
+export function cachePolicy(route: CacheRoute): CachePolicy {
+  const seconds = (name: string, fallbackMs: number) => {
+    const value = Number.parseInt(process.env[`SCRAPE_CACHE_${name}_${route.toUpperCase()}`] || "", 10)
+    return Number.isFinite(value) && value >= 0 ? value * 1000 : fallbackMs
+  }
+
+  const defaults = DEFAULT_CACHE_POLICIES[route]
+  return { ttlMs: seconds("TTL", defaults.ttlMs), staleMs: seconds("STALE", defaults.staleMs) }
+}
+
+// Keys being scraped again in the background, so a stale entry is only refreshed once at a time
+const revalidating = new Set<string>()
+
+// Load a value and store it when `shouldStore` accepts it; failed scrapes aren't cached
+async function refresh<T>(
+  cache: CacheStore,
+  key: string,
+  policy: CachePolicy,
+  load: () => Promise<T>,
+  shouldStore: (value: T) => boolean,
+): Promise<Cached<T>> {
+  const value = await load()
+  const cachedAt = Date.now()
+
+  if (shouldStore(value)) {
+    const entry = { value, cachedAt, expiresAt: cachedAt + policy.ttlMs + policy.staleMs }
+    await cache.set(key, entry).catch((error) => console.error(`Error caching ${key}:`, error))
+  }
+  return { value, cachedAt }
+}
+
+// Stale-while-revalidate: a fresh entry is returned as is, a stale one is returned straight away while a
+// fresh copy is loaded in the background, and anything older is loaded before returning. A broken cache
+// only means loading every time
+export async function cached<T>(
+  key: string,
+  policy: CachePolicy,
+  load: () => Promise<T>,
+  shouldStore: (value: T) => boolean = () => true,
+): Promise<Cached<T>> {
+  const cache = getScrapeCache()
+  if (!cache) return { value: await load(), cachedAt: Date.now() }
+
+  const entry = await cache.get<T>(key).catch((error) => {
+    console.error(`Error reading cache entry ${key}:`, error)
+    return null
+  })
+  if (!entry) return refresh(cache, key, policy, load, shouldStore)
+
+  const age = Date.now() - entry.cachedAt
+  if (age >= policy.ttlMs + policy.staleMs) return refresh(cache, key, policy, load, shouldStore)
+
+  if (age >= policy.ttlMs && !revalidating.has(key)) {
+    revalidating.add(key)
+    refresh(cache, key, policy, load, shouldStore)
+      .catch((error) => console.error(`Error revalidating ${key}:`, error))
+      .finally(() => revalidating.delete(key))
+  }
+
+  return { value: entry.value, cachedAt: entry.cachedAt }
+}
@@ -0,0 +1,33 @@
+import type { CacheEntry, CacheStore } from "./types"
+
+// Keeps the most recently used entries in a Map for the life of the process. A Map iterates in insertion
+// order, so re-inserting on every read keeps the least recently used entry first
+export function createMemoryCacheStore(maxEntries = 1000): CacheStore {
+  const entries = new Map<string, CacheEntry>()
+
+  return {
+    async get<T>(key: string) {
+      const entry = entries.get(key)
+      if (!entry) return null
+
+      entries.delete(key)
+      if (entry.expiresAt <= Date.now()) return null
+
+      entries.set(key, entry)
+      return entry as CacheEntry<T>
+    },
+
+    async set(key, entry) {
+      entries.delete(key)
+      entries.set(key, entry)
+
+      while (entries.size > maxEntries) {
+        entries.delete(entries.keys().next().value!)
+      }
+    },
+
+    async delete(key) {
+      entries.delete(key)
+    },
+  }
+}
@@ -0,0 +1,24 @@
+// Shared shapes for the scrape cache
+
+// A cached value and when it was scraped
+export interface CacheEntry<T = unknown> {
+  value: T
+  cachedAt: number // ms since epoch
+  expiresAt: number // past this the entry is never served, not even stale; ms since epoch
+}
+
+// How long a cached value is served for
+export interface CachePolicy {
+  // Served as is for this long after it was scraped
+  ttlMs: number
+  // Then served for this much longer while a fresh copy is scraped in the background
+  staleMs: number
+}
+
+// Storage backend for the scrape cache. Implementations may drop entries at any time
+export interface CacheStore {
+  // Returns null for unknown or expired keys
+  get<T>(key: string): Promise<CacheEntry<T> | null>
+  set<T>(key: string, entry: CacheEntry<T>): Promise<void>
+  delete(key: string): Promise<void>
+}
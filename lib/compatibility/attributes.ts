@@ -0,0 +1,133 @@
+// Read sockets, chipsets, memory generations and form factors out of listing names
+import { estimatePartWatts, parsePsuWatts } from "@/lib/power"
+import type { ComponentType } from "@/lib/retailers/types"
+import {
+  CHIPSET_SOCKETS,
+  parseBoardFormFactor,
+  parseChipset,
+  parseFormFactor,
+  parseMemoryType,
+  parseSocket,
+} from "@/lib/specs/parsers"
+import type { CompatibilityPart, FormFactor, MemoryType, PartAttributes, Socket } from "./types"
+
+// Memory generation fixed by the socket; Intel 600/700-series boards come in both DDR4 and DDR5
+const SOCKET_MEMORY: Partial<Record<Socket, MemoryType>> = {
+  AM4: "DDR4",
+  AM5: "DDR5",
+  LGA1151: "DDR4",
+  LGA1200: "DDR4",
+  LGA1851: "DDR5",
+}
+
+// Every socket mentioned, for coolers that print "AM4/AM5/LGA1700"
+function parseSockets(text: string): Socket[] {
+  const sockets = new Set<Socket>()
+  const normalized = text.replace(/LGA\s*-?\s*/gi, "LGA")
+
+  normalized.match(/\bAM[45]\b/gi)?.forEach((socket) => sockets.add(socket.toUpperCase() as Socket))
+  normalized.match(/\bLGA(115[0156x]|1200|1700|1851)\b/gi)?.forEach((socket) => {
+    const number = socket.slice(3)
+    // Every LGA115x socket shares the 1151 mounting holes
+    sockets.add(number.startsWith("115") ? "LGA1151" : (`LGA${number}` as Socket))
+  })
+
+  return [...sockets]
+}
+
+// Socket a CPU goes in, from its model number when the listing doesn't say
+function cpuSocket(name: string): Socket | undefined {
+  const explicit = parseSocket(name)
+  if (explicit) return explicit
+
+  // Ryzen 7000 and newer desktop chips are AM5, older ones AM4
+  const ryzen = name.match(/ryzen\s*[3579]\s*(?:pro\s*)?(\d)\d{3}/i)
+  if (ryzen) return Number(ryzen[1]) >= 7 ? "AM5" : "AM4"
+  if (/athlon\s*(?:gold\s*|silver\s*)?3000g|athlon\s*\d{3}ge/i.test(name)) return "AM4"
+
+  // Core Ultra 200-series desktop chips
+  if (/ultra\s*[3579]\s*2\d{2}/i.test(name)) return "LGA1851"
+
+  const core = name.match(/\bi[3579][\s-]*(\d{4,5})/i)
+  if (core) {
+    const generation = core[1].length === 5 ? Number(core[1].slice(0, 2)) : Number(core[1][0])
+    if (generation >= 12) return "LGA1700"
+    if (generation >= 10) return "LGA1200"
+    if (generation >= 8) return "LGA1151"
+  }
+
+  // Pentium Gold / Celeron model numbers, e.g. G7400 or G5905
+  const budget = name.match(/\bG(\d)\d{3}/i)
+  if (budget && /pentium|celeron/i.test(name)) {
+    const series = Number(budget[1])
+    if (series >= 7) return "LGA1700"
+    if (series === 6 || name.includes("5905")) return "LGA1200"
+    return "LGA1151"
+  }
+
+  return undefined
+}
+
+// Largest board a case takes, falling back on the tower size
+function caseFormFactor(name: string): FormFactor | undefined {
+  const explicit = parseFormFactor(name)
+  if (explicit) return explicit
+
+  if (/full[\s-]?tower/i.test(name)) return "E-ATX"
+  if (/mid[\s-]?tower/i.test(name)) return "ATX"
+  if (/mini[\s-]?tower/i.test(name)) return "Micro-ATX"
+  return undefined
+}
+
+// Specs beat the listing name when a shop provides them
+function specValue(part: CompatibilityPart, ...keys: string[]): string | undefined {
+  if (!part.specs) return undefined
+  const entry = Object.entries(part.specs).find(([key]) => keys.some((k) => key.toLowerCase() === k.toLowerCase()))
+  return entry?.[1]
+}
+
+export function extractAttributes(type: ComponentType, part: CompatibilityPart): PartAttributes {
+  if (type === "power-supply") {
+    return { psuWatts: parsePsuWatts(part) ?? undefined }
+  }
+
+  const powerWatts = estimatePartWatts(type, part)
+  return { ...fitAttributes(type, part), ...(powerWatts > 0 && { powerWatts }) }
+}
+
+function fitAttributes(type: ComponentType, part: CompatibilityPart): PartAttributes {
+  const { name } = part
+  const socketSpec = specValue(part, "Socket", "CPU Socket")
+  const memorySpec = specValue(part, "Memory Type", "Type")
+  const formFactorSpec = specValue(part, "Form Factor", "Motherboard", "Motherboard Support")
+
+  switch (type) {
+    case "cpu": {
+      const socket = (socketSpec && parseSocket(socketSpec)) || cpuSocket(name)
+      return { socket }
+    }
+    case "motherboard": {
+      const chipset = parseChipset(name)
+      const socket = (socketSpec && parseSocket(socketSpec)) || parseSocket(name) || (chipset && CHIPSET_SOCKETS[chipset])
+      const memoryType =
+        (memorySpec && parseMemoryType(memorySpec)) || parseMemoryType(name) || (socket && SOCKET_MEMORY[socket])
+      const formFactor = (formFactorSpec && parseFormFactor(formFactorSpec)) || parseBoardFormFactor(name)
+      return {
+        socket: socket || undefined,
+        chipset: chipset ?? undefined,
+        memoryType: memoryType || undefined,
+        formFactor: formFactor || undefined,
+      }
+    }
+    case "memory":
+      return { memoryType: (memorySpec && parseMemoryType(memorySpec)) || parseMemoryType(name) || undefined }
+    case "case":
+      return { formFactor: (formFactorSpec && parseFormFactor(formFactorSpec)) || caseFormFactor(name) || undefined }
+    case "cpu-cooler": {
+      const sockets = parseSockets(`${socketSpec || ""} ${name}`)
+      return sockets.length > 0 ? { supportedSockets: sockets } : {}
+    }
+    default:
+      return {}
+  }
+}
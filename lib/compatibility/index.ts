@@ -0,0 +1,53 @@
+// Warns about parts in a build that don't fit together
+import type { ComponentType } from "@/lib/retailers/types"
+import { extractAttributes } from "./attributes"
+import { compatibilityRules } from "./rules"
+import type {
+  CompatibilityIssue,
+  CompatibilityPart,
+  CompatibilityRule,
+  PartAttributes,
+  PartsAttributes,
+  SelectedParts,
+} from "./types"
+
+export type {
+  CompatibilityIssue,
+  CompatibilityPart,
+  CompatibilityRule,
+  FormFactor,
+  IssueSeverity,
+  MemoryType,
+  PartAttributes,
+  SelectedParts,
+  Socket,
+} from "./types"
+export { extractAttributes } from "./attributes"
+export { compatibilityRules } from "./rules"
+
+function categoryAttributes(type: ComponentType, items: CompatibilityPart[]): PartAttributes {
+  return items.reduce<PartAttributes>((merged, item) => {
+    const { powerWatts, ...attributes } = extractAttributes(type, item)
+    const totalWatts = (merged.powerWatts ?? 0) + (powerWatts ?? 0) * (item.quantity ?? 1)
+    return { ...attributes, ...merged, ...(totalWatts > 0 && { powerWatts: totalWatts }) }
+  }, {})
+}
+
+// Run every rule against the selected parts, errors first
+export function checkCompatibility(
+  parts: SelectedParts,
+  rules: CompatibilityRule[] = compatibilityRules,
+): CompatibilityIssue[] {
+  const attributes: PartsAttributes = {}
+  Object.entries(parts).forEach(([type, items]) => {
+    if (items && items.length > 0) attributes[type as ComponentType] = categoryAttributes(type as ComponentType, items)
+  })
+
+  const issues = rules.flatMap((rule) => rule.check(attributes))
+  return issues.sort((a, b) => (a.severity === b.severity ? 0 : a.severity === "error" ? -1 : 1))
+}
+
+// Issues that involve a given category, for showing beside its row
+export function issuesFor(issues: CompatibilityIssue[], type: string): CompatibilityIssue[] {
+  return issues.filter((issue) => issue.categories.includes(type as ComponentType))
+}
@@ -0,0 +1,151 @@
+import { recommendedPsuWatts } from "@/lib/power"
+import { FORM_FACTORS, type CompatibilityRule, type Socket } from "./types"
+
+// Sockets that share cooler mounting holes, so an AM4 cooler still fits an AM5 board
+const MOUNTING_GROUPS: Socket[][] = [
+  ["AM4", "AM5"],
+  ["LGA1151", "LGA1200"],
+  ["LGA1700", "LGA1851"],
+]
+
+// Memory generation a CPU's platform is locked to, where it is
+const CPU_MEMORY: Partial<Record<Socket, string>> = { AM5: "DDR5", LGA1851: "DDR5" }
+
+function sharesMounting(supported: Socket[], socket: Socket): boolean {
+  return supported.some(
+    (candidate) =>
+      candidate === socket || MOUNTING_GROUPS.some((group) => group.includes(candidate) && group.includes(socket)),
+  )
+}
+
+const cpuMotherboardSocket: CompatibilityRule = {
+  id: "cpu-motherboard-socket",
+  check({ cpu, motherboard }) {
+    if (!cpu?.socket || !motherboard?.socket || cpu.socket === motherboard.socket) return []
+    return [
+      {
+        rule: this.id,
+        severity: "error",
+        categories: ["cpu", "motherboard"],
+        message: `The ${cpu.socket} CPU doesn't fit the ${motherboard.socket} motherboard`,
+      },
+    ]
+  },
+}
+
+const memoryMotherboardGeneration: CompatibilityRule = {
+  id: "memory-motherboard-generation",
+  check({ memory, motherboard }) {
+    if (!memory?.memoryType || !motherboard) return []
+
+    if (motherboard.memoryType && motherboard.memoryType !== memory.memoryType) {
+      return [
+        {
+          rule: this.id,
+          severity: "error",
+          categories: ["memory", "motherboard"],
+          message: `${memory.memoryType} memory won't work in a ${motherboard.memoryType} motherboard`,
+        },
+      ]
+    }
+
+    if (!motherboard.memoryType && motherboard.socket === "LGA1700") {
+      return [
+        {
+          rule: this.id,
+          severity: "warning",
+          categories: ["memory", "motherboard"],
+          message: `${motherboard.chipset || "LGA1700"} boards come in DDR4 and DDR5 versions; check this one takes ${memory.memoryType}`,
+        },
+      ]
+    }
+
+    return []
+  },
+}
+
+// Without a board picked yet, AM5 and Core Ultra CPUs still rule out DDR4
+const cpuMemoryGeneration: CompatibilityRule = {
+  id: "cpu-memory-generation",
+  check({ cpu, memory, motherboard }) {
+    if (motherboard?.memoryType || !cpu?.socket || !memory?.memoryType) return []
+
+    const required = CPU_MEMORY[cpu.socket]
+    if (!required || required === memory.memoryType) return []
+    return [
+      {
+        rule: this.id,
+        severity: "error",
+        categories: ["cpu", "memory"],
+        message: `${cpu.socket} CPUs only support ${required}, not ${memory.memoryType}`,
+      },
+    ]
+  },
+}
+
+const motherboardCaseFormFactor: CompatibilityRule = {
+  id: "motherboard-case-form-factor",
+  check({ motherboard, case: pcCase }) {
+    if (!motherboard?.formFactor || !pcCase?.formFactor) return []
+    if (FORM_FACTORS.indexOf(motherboard.formFactor) <= FORM_FACTORS.indexOf(pcCase.formFactor)) return []
+    return [
+      {
+        rule: this.id,
+        severity: "error",
+        categories: ["motherboard", "case"],
+        message: `The ${motherboard.formFactor} motherboard is larger than the case supports (${pcCase.formFactor})`,
+      },
+    ]
+  },
+}
+
+// Cooler listings rarely name every bracket they ship with, so a mismatch is only a warning
+const coolerSocket: CompatibilityRule = {
+  id: "cooler-socket",
+  check({ cpu, motherboard, "cpu-cooler": cooler }) {
+    const socket = cpu?.socket || motherboard?.socket
+    if (!socket || !cooler?.supportedSockets || sharesMounting(cooler.supportedSockets, socket)) return []
+    return [
+      {
+        rule: this.id,
+        severity: "warning",
+        categories: ["cpu-cooler", cpu?.socket ? "cpu" : "motherboard"],
+        message: `The cooler lists ${cooler.supportedSockets.join("/")} support but not ${socket}`,
+      },
+    ]
+  },
+}
+
+// Undersized is an error; enough for the estimate but short of the recommended headroom is a warning
+const psuCapacity: CompatibilityRule = {
+  id: "psu-capacity",
+  check(parts) {
+    const psuWatts = parts["power-supply"]?.psuWatts
+    if (!psuWatts || (!parts.cpu && !parts["video-card"])) return []
+
+    const loadWatts = Object.values(parts).reduce((total, part) => total + (part?.powerWatts ?? 0), 0)
+    const recommended = recommendedPsuWatts(loadWatts)
+    if (psuWatts >= recommended) return []
+
+    const undersized = psuWatts < loadWatts
+    return [
+      {
+        rule: this.id,
+        severity: undersized ? "error" : "warning",
+        categories: parts["video-card"] ? ["power-supply", "video-card"] : ["power-supply", "cpu"],
+        message: undersized
+          ? `The ${psuWatts}W power supply is below the build's estimated ${loadWatts}W load`
+          : `The ${psuWatts}W power supply leaves little headroom; ${recommended}W is recommended`,
+      },
+    ]
+  },
+}
+
+export const compatibilityRules: CompatibilityRule[] = [
+  cpuMotherboardSocket,
+  memoryMotherboardGeneration,
+  cpuMemoryGeneration,
+  motherboardCaseFormFactor,
+  coolerSocket,
+  psuCapacity,
+]
@@ -0,0 +1,53 @@
+// Shared shapes for the build compatibility checks
+import type { ComponentType } from "@/lib/retailers/types"
+
+export type Socket = "AM4" | "AM5" | "LGA1151" | "LGA1200" | "LGA1700" | "LGA1851"
+
+export type MemoryType = "DDR3" | "DDR4" | "DDR5"
+
+// Ordered smallest to largest, so a case that fits one size fits everything before it
+export const FORM_FACTORS = ["Mini-ITX", "Micro-ATX", "ATX", "E-ATX"] as const
+
+export type FormFactor = (typeof FORM_FACTORS)[number]
+
+// The bits of a part that matter for fitting it with the rest of the build; anything we couldn't
+// read from the listing is left undefined. With several parts in a category the first one that
+// states a value wins, and power draw is summed
+export interface PartAttributes {
+  socket?: Socket
+  chipset?: string
+  memoryType?: MemoryType
+  formFactor?: FormFactor
+  // Sockets a cooler lists mounting support for
+  supportedSockets?: Socket[]
+  // Estimated draw under load, or for a power supply its rated output
+  powerWatts?: number
+  psuWatts?: number
+}
+
+// What the checks need from a selected part
+export interface CompatibilityPart {
+  name: string
+  specs?: Record<string, string>
+  quantity?: number
+}
+
+export type SelectedParts = Partial<Record<ComponentType, CompatibilityPart[]>>
+
+export type PartsAttributes = Partial<Record<ComponentType, PartAttributes>>
+
+export type IssueSeverity = "error" | "warning"
+
+export interface CompatibilityIssue {
+  rule: string
+  severity: IssueSeverity
+  // Every category involved, so the issue can be shown beside each row
+  categories: ComponentType[]
+  message: string
+}
+
+// Looks at the extracted attributes of the whole build and reports what doesn't fit
+export interface CompatibilityRule {
+  id: string
+  check(parts: PartsAttributes): CompatibilityIssue[]
+}
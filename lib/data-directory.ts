@@ -0,0 +1,14 @@
+// Checks for the directories server-side stores keep their files in
+import { accessSync, constants, mkdirSync } from "fs"
+
+// Whether the directory exists or can be created, and can be written to. Read-only and serverless deploys
+// often can't, so stores check before choosing their file backend
+export function isWritable(directory: string): boolean {
+  try {
+    mkdirSync(directory, { recursive: true })
+    accessSync(directory, constants.W_OK)
+    return true
+  } catch {
+    return false
+  }
+}
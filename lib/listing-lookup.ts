@@ -0,0 +1,28 @@
+// Looking a build item up again at its own shop, shared by the purchase checklist and price drift checks
+import type { BuildItem } from "@/lib/build"
+import type { Price } from "@/lib/price"
+import type { Product } from "@/lib/retailers/types"
+
+function sameListing(a: string, b: string): boolean {
+  const normalize = (url: string) => url.split(/[?#]/)[0].replace(/\/+$/, "").toLowerCase()
+  return normalize(a) === normalize(b)
+}
+
+// Search the item's own shop again and return the same listing as it stands today, or null when
+// the search no longer turns it up
+export async function fetchCurrentListing(item: Pick<BuildItem, "name" | "source" | "url">): Promise<Product | null> {
+  const response = await fetch(
+    `/api/products?query=${encodeURIComponent(item.name)}&sources=${encodeURIComponent(item.source)}&limit=10`,
+  )
+  if (!response.ok) throw new Error(`Failed to check current price: ${response.status}`)
+
+  const data = await response.json()
+  const products: Product[] = data.products || []
+  return products.find((product) => sameListing(product.url, item.url)) ?? null
+}
+
+// Price change of a line since it was added to the build, or null when either price is unknown
+export function priceChange(item: BuildItem, current: Price | null | undefined): number | null {
+  if (!current?.current || !item.price.current) return null
+  return (current.current - item.price.current) * item.quantity
+}
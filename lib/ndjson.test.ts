@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest"
+import { ndjsonResponse, readNdjson } from "./ndjson"
+
+describe("ndjsonResponse", () => {
+  it("streams every line the producer sends", async () => {
+    const response = ndjsonResponse(async (send) => {
+      send({ n: 1 })
+      send({ n: 2 })
+    })
+
+    const lines: unknown[] = []
+    await readNdjson(response, (line) => lines.push(line))
+    expect(lines).toEqual([{ n: 1 }, { n: 2 }])
+  })
+
+  it("aborts the producer's signal and drops later lines once the client cancels", async () => {
+    let release!: () => void
+    const released = new Promise<void>((resolve) => (release = resolve))
+    let signal!: AbortSignal
+    let finished = false
+
+    const response = ndjsonResponse(async (send, producerSignal) => {
+      signal = producerSignal
+      send({ n: 1 })
+      await released
+      send({ n: 2 })
+      finished = true
+    })
+
+    const reader = response.body!.getReader()
+    await reader.read()
+    await reader.cancel()
+    expect(signal.aborted).toBe(true)
+
+    release()
+    await new Promise((resolve) => setTimeout(resolve, 0))
+    expect(finished).toBe(true)
+  })
+})
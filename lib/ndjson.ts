@@ -0,0 +1,62 @@
+// Newline-delimited JSON streaming, used to send each retailer's results as soon as they arrive
+
+// Server side: run `producer` and stream every object it sends as one JSON line. `signal` aborts when
+// the client stops reading, after which anything sent is dropped
+export function ndjsonResponse(
+  producer: (send: (line: unknown) => void, signal: AbortSignal) => Promise<void>,
+): Response {
+  const encoder = new TextEncoder()
+  const cancelled = new AbortController()
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (line: unknown) => {
+        if (cancelled.signal.aborted) return
+        controller.enqueue(encoder.encode(`${JSON.stringify(line)}\n`))
+      }
+
+      try {
+        await producer(send, cancelled.signal)
+      } catch (error) {
+        console.error("Error while streaming:", error)
+        send({ type: "error", message: error instanceof Error ? error.message : "Unknown error" })
+      } finally {
+        // A cancelled stream is already closed
+        if (!cancelled.signal.aborted) controller.close()
+      }
+    },
+    cancel() {
+      cancelled.abort()
+    },
+  })
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "application/x-ndjson; charset=utf-8",
+      "Cache-Control": "no-cache",
+    },
+  })
+}
+
+// Client side: call `onLine` for every complete JSON line as the body downloads
+export async function readNdjson<T>(response: Response, onLine: (line: T) => void): Promise<void> {
+  if (!response.body) throw new Error("Response has no body to stream")
+
+  const reader = response.body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ""
+
+  while (true) {
+    const { done, value } = await reader.read()
+    buffer += decoder.decode(value, { stream: !done })
+
+    // Keep the trailing partial line in the buffer until the rest of it arrives
+    const lines = buffer.split("\n")
+    buffer = lines.pop() || ""
+    lines.filter((line) => line.trim()).forEach((line) => onLine(JSON.parse(line)))
+
+    if (done) break
+  }
+
+  if (buffer.trim()) onLine(JSON.parse(buffer))
+}
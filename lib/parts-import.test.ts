@@ -0,0 +1,156 @@
+import { describe, expect, it } from "vitest"
+import { matchConfidence, parsePartsList, searchQueryFor } from "./parts-import"
+
+const parts = (text: string) => parsePartsList(text).map(({ name, type, quantity }) => ({ name, type, quantity }))
+
+describe("parsePartsList", () => {
+  it("reads PCPartPicker's markdown export", () => {
+    const text = [
+      "[PCPartPicker Part List](https://pcpartpicker.com/list/abc123)",
+      "",
+      "Type|Item|Price",
+      ":----|:----|:----",
+      "**CPU** | [AMD Ryzen 5 7600 3.8 GHz 6-Core Processor](https://pcpartpicker.com/product/x) | $199.99 @ Amazon",
+      "**Memory** | [Corsair Vengeance 32 GB (2 x 16 GB) DDR5-6000 CL36 Memory](https://pcpartpicker.com/product/y) | $99.99 @ Newegg",
+      "**Video Card** | [Sapphire PULSE Radeon RX 7600 8 GB Video Card](https://pcpartpicker.com/product/z) | $249.99 @ Amazon",
+      " | *Prices include shipping, taxes, rebates, and discounts* |",
+      " | **Total** | **$549.97**",
+      " | Generated by [PCPartPicker](https://pcpartpicker.com) 2025-01-01 12:00 EST-0500 |",
+    ].join("\n")
+
+    expect(parts(text)).toEqual([
+      { name: "AMD Ryzen 5 7600 3.8 GHz 6-Core Processor", type: "cpu", quantity: 1 },
+      { name: "Corsair Vengeance 32 GB (2 x 16 GB) DDR5-6000 CL36 Memory", type: "memory", quantity: 1 },
+      { name: "Sapphire PULSE Radeon RX 7600 8 GB Video Card", type: "video-card", quantity: 1 },
+    ])
+  })
+
+  it("reads PCPartPicker's text export", () => {
+    const text = [
+      "PCPartPicker Part List: https://pcpartpicker.com/list/abc123",
+      "",
+      "CPU: AMD Ryzen 5 7600 3.8 GHz 6-Core Processor  ($199.99 @ Amazon)",
+      "Motherboard: MSI B650 GAMING PLUS WIFI ATX AM5 Motherboard  ($169.99 @ Amazon)",
+      "Storage: Samsung 990 Pro 2 TB M.2-2280 PCIe 4.0 X4 NVME Solid State Drive  ($169.99 @ Amazon)",
+      "Total: $539.97",
+      "Prices include shipping, taxes, and discounts when available",
+      "Generated by PCPartPicker 2025-01-01 12:00 EST-0500",
+    ].join("\n")
+
+    expect(parts(text)).toEqual([
+      { name: "AMD Ryzen 5 7600 3.8 GHz 6-Core Processor", type: "cpu", quantity: 1 },
+      { name: "MSI B650 GAMING PLUS WIFI ATX AM5 Motherboard", type: "motherboard", quantity: 1 },
+      { name: "Samsung 990 Pro 2 TB M.2-2280 PCIe 4.0 X4 NVME Solid State Drive", type: "storage", quantity: 1 },
+    ])
+  })
+
+  it("reads our own markdown export, with escaped names and the quantity column", () => {
+    const text = [
+      "| Category | Part | Shop | Qty | Price |",
+      "| --- | --- | --- | ---: | ---: |",
+      "| Processor | [Ryzen 5 7600 \\[Tray\\] \\| \\(OEM\\)](https://shop.test/ryzen%20%28tray%29) | Star\\|Tech | 1 | ৳ 20,500 |",
+      "| Memory | [Corsair Vengeance 8GB DDR4](https://shop.test/ram) | Techland | 2 | ৳ 6,000 |",
+      "| | | | **Total** | **৳ 26,500** |",
+      "",
+      "Build link: https://site.test/build?build=abc",
+    ].join("\n")
+
+    expect(parts(text)).toEqual([
+      { name: "Ryzen 5 7600 [Tray] | (OEM)", type: "cpu", quantity: 1 },
+      { name: "Corsair Vengeance 8GB DDR4", type: "memory", quantity: 2 },
+    ])
+  })
+
+  it("reads our Reddit, BBCode and plain text exports", () => {
+    const reddit = "**Memory** | [Corsair Vengeance 8GB DDR4](https://shop.test/ram) x2 | ৳ 6,000 @ Techland"
+    const bbcode = "[b]Memory:[/b] [url=https://shop.test/ram]Corsair Vengeance 8GB DDR4[/url] x2 - ৳ 6,000 @ Techland"
+    const text = "Memory: Corsair Vengeance 8GB DDR4 x2 - ৳ 6,000 @ Techland\n  https://shop.test/ram"
+
+    const expected = [{ name: "Corsair Vengeance 8GB DDR4", type: "memory", quantity: 2 }]
+    expect(parts(reddit)).toEqual(expected)
+    expect(parts(bbcode)).toEqual(expected)
+    expect(parts(text)).toEqual(expected)
+  })
+
+  it("reads CSV with a header row, quoted cells and doubled quotes", () => {
+    const text = [
+      "Category,Part,Shop,Quantity,Unit Price (BDT),Line Total (BDT),Link",
+      'Memory,"Corsair Vengeance 8GB, DDR4",Techland,2,3000,6000,https://shop.test/ram',
+      'Monitor,"Dell 24"" P2422H",Startech,1,20000,20000,https://shop.test/monitor',
+      "Total,,,,,26000,",
+    ].join("\n")
+
+    expect(parts(text)).toEqual([
+      { name: "Corsair Vengeance 8GB, DDR4", type: "memory", quantity: 2 },
+      { name: 'Dell 24" P2422H', type: "monitor", quantity: 1 },
+    ])
+  })
+
+  it("reads one part per line, with list markers and quantities either side", () => {
+    const text = [
+      "- Ryzen 5 7600",
+      "2x Corsair Vengeance 8GB DDR4",
+      "1. Samsung 990 Pro 1TB SSD x 2",
+      "RTX 4060",
+    ].join("\n")
+
+    expect(parts(text)).toEqual([
+      { name: "Ryzen 5 7600", type: "cpu", quantity: 1 },
+      { name: "Corsair Vengeance 8GB DDR4", type: "memory", quantity: 2 },
+      { name: "Samsung 990 Pro 1TB SSD", type: "storage", quantity: 2 },
+      { name: "RTX 4060", type: "video-card", quantity: 1 },
+    ])
+  })
+
+  it("doesn't take the X of a model number for a quantity", () => {
+    expect(parts("Ryzen 5 5600X 2")).toEqual([{ name: "Ryzen 5 5600X 2", type: "cpu", quantity: 1 }])
+    expect(parts("Ryzen 7 5800X3D")).toEqual([{ name: "Ryzen 7 5800X3D", type: "cpu", quantity: 1 }])
+    expect(parts("Ryzen 5 5600X x2")).toEqual([{ name: "Ryzen 5 5600X", type: "cpu", quantity: 2 }])
+  })
+
+  it("keeps a single pipe as part of the name rather than a table", () => {
+    expect(parts("Corsair RM750e | 750W Power Supply")).toEqual([
+      { name: "Corsair RM750e | 750W Power Supply", type: "power-supply", quantity: 1 },
+    ])
+  })
+
+  it("doesn't split a table row on escaped pipes", () => {
+    expect(parts("**CPU** | [Ryzen 5 7600 \\| OEM](https://shop.test/cpu) | ৳ 20,500 @ Star\\|Tech")).toEqual([
+      { name: "Ryzen 5 7600 | OEM", type: "cpu", quantity: 1 },
+    ])
+  })
+
+  it("skips header, separator, footer and blank lines", () => {
+    const text = [
+      "Type|Item|Price",
+      ":----|:----|:----",
+      "",
+      " | *Total* | ৳ 20,500",
+      " | *Shop totals* | Startech ৳ 10,000, Techland ৳ 10,500",
+      "Total: ৳ 20,500",
+      "Shop totals: Startech ৳ 10,000, Techland ৳ 10,500",
+      "[url=https://site.test/build?build=abc]View this build[/url]",
+      "https://shop.test/ram",
+    ].join("\n")
+
+    expect(parts(text)).toEqual([])
+  })
+})
+
+describe("matchConfidence", () => {
+  it("weighs model numbers above other words", () => {
+    expect(matchConfidence("AMD Ryzen 5 7600", "AMD Ryzen 5 7600 Processor")).toBe(100)
+    expect(matchConfidence("AMD Ryzen 5 7600", "AMD Ryzen 5 5600 Processor")).toBeLessThan(
+      matchConfidence("AMD Ryzen 5 7600", "Ryzen 5 7600 Tray"),
+    )
+  })
+
+  it("ignores clock speeds, core counts and category words", () => {
+    expect(searchQueryFor("AMD Ryzen 5 7600 3.8 GHz 6-Core Processor")).toBe("AMD Ryzen 5 7600")
+    expect(matchConfidence("AMD Ryzen 5 7600 3.8 GHz 6-Core Processor", "AMD Ryzen 5 7600")).toBe(100)
+  })
+
+  it("is 0 for a name with nothing to search for", () => {
+    expect(matchConfidence("(OEM)", "Anything")).toBe(0)
+  })
+})
@@ -0,0 +1,259 @@
+// Turn a pasted parts list into listings from our shops. Accepts PCPartPicker's markdown and text
+// exports, our own exports, CSV with a header row, or simply one part per line
+import { isPurchasable } from "@/lib/availability"
+import { addItem, allowsMultiple, setQuantity, type Build } from "@/lib/build"
+import { guessComponentType } from "@/lib/retailers/matching"
+import { COMPONENT_LABELS, COMPONENT_TYPES, type Component, type ComponentType } from "@/lib/retailers/types"
+
+export interface ParsedPart {
+  // The line as pasted, shown on the review screen
+  line: string
+  name: string
+  // Category named in the list, or guessed from the part's name
+  type: ComponentType | null
+  quantity: number
+}
+
+export interface ImportMatch {
+  component: Component
+  // How much of the pasted name the listing's name covers, 0-100
+  confidence: number
+}
+
+// Below this a match is more likely a different part than the one pasted
+export const MIN_CONFIDENCE = 40
+
+// Category labels as PCPartPicker, our exports and people writing lists by hand spell them
+const LABEL_TYPES: Record<string, ComponentType> = {
+  ...Object.fromEntries(COMPONENT_TYPES.map((type) => [COMPONENT_LABELS[type].toLowerCase(), type])),
+  processor: "cpu",
+  cooler: "cpu-cooler",
+  mobo: "motherboard",
+  ram: "memory",
+  ssd: "storage",
+  hdd: "storage",
+  gpu: "video-card",
+  "graphics card": "video-card",
+  casing: "case",
+  psu: "power-supply",
+}
+
+// Lines that belong to the list's header or footer rather than a part
+const SKIP_LINE = /^(total|shop totals|build link|view this build|pcpartpicker part list|generated by|prices include)/i
+
+// First cell of a table's header row
+const TABLE_HEADER = /^(type|category|component)$/i
+
+function labelType(label: string): ComponentType | null {
+  return LABEL_TYPES[label.replace(/[*_:]/g, "").trim().toLowerCase()] ?? null
+}
+
+function unescapeMarkdown(text: string): string {
+  return text.replace(/\\(.)/g, "$1")
+}
+
+// Keep the text of markdown and BBCode links and drop bold/italic tags, as forum posts paste them
+function stripMarkup(text: string): string {
+  return unescapeMarkdown(
+    text
+      .replace(/\[url=[^\]]*\](.*?)\[\/url\]/gi, "$1")
+      .replace(/\[\/?[biu]\]/gi, "")
+      .replace(/\[([^\]]+)\]\([^)]+\)/g, "$1"),
+  )
+}
+
+// Drop the price and shop people paste along with a part: "($199.99 @ Amazon)", "- ৳ 24,000 @ Startech"
+function stripPrice(text: string): string {
+  return text
+    .replace(/\s*\([^)]*@[^)]*\)\s*$/, "")
+    .replace(/\s+-\s+(?:৳|tk|bdt|\$|call for price).*$/i, "")
+    .replace(/\s+@\s+\S.*$/, "")
+    .trim()
+}
+
+// "2x Corsair 8GB", "Corsair 8GB x2" -> quantity 2
+function splitQuantity(text: string): { name: string; quantity: number } {
+  const prefix = text.match(/^(\d+)\s*x\s+(.+)$/i)
+  if (prefix) return { name: prefix[2], quantity: Number(prefix[1]) }
+
+  const suffix = text.match(/^(.+?)\s+x\s*(\d+)$/i)
+  if (suffix) return { name: suffix[1], quantity: Number(suffix[2]) }
+
+  return { name: text, quantity: 1 }
+}
+
+// A row of a markdown table: "**CPU** | [AMD Ryzen 5 7600](https://...) | $199.99 @ Amazon"
+function parseTableRow(line: string): ParsedPart | null {
+  const cells = line.split(/(?<!\\)\|/).map((cell) => cell.trim())
+  if (cells[0] === "") cells.shift()
+  if (cells.length < 2 || /^[\s:-]*$/.test(cells.join(""))) return null
+  if (TABLE_HEADER.test(cells[0])) return null
+
+  // Footer rows (totals, "Generated by") leave the category cell empty
+  const type = labelType(cells[0])
+  if (!cells[0] || SKIP_LINE.test(cells[0].replace(/[*_]/g, ""))) return null
+
+  const linked = cells.map((cell) => cell.match(/^\[(.+)\]\(.+\)(?:\s*x(\d+))?$/)).find(Boolean)
+  const quantityCell = cells.find((cell) => /^\d+$/.test(cell))
+  const name = unescapeMarkdown(linked ? linked[1] : cells[1])
+  const quantity = Number(linked?.[2] || quantityCell || 1)
+
+  return name ? { line, name, type: type ?? guessComponentType(name), quantity } : null
+}
+
+function parseCsvLine(line: string): string[] {
+  const cells: string[] = []
+  let cell = ""
+  let quoted = false
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i]
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        cell += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ",") {
+      cells.push(cell.trim())
+      cell = ""
+    } else {
+      cell += char
+    }
+  }
+
+  cells.push(cell.trim())
+  return cells
+}
+
+function parseCsv(lines: string[]): ParsedPart[] {
+  const header = parseCsvLine(lines[0]).map((cell) => cell.toLowerCase())
+  const column = (...names: string[]) => header.findIndex((cell) => names.some((name) => cell.startsWith(name)))
+  const typeColumn = column("category", "type", "component")
+  const nameColumn = column("part", "name", "item", "product")
+  const quantityColumn = column("quantity", "qty")
+
+  return lines.slice(1).flatMap((line) => {
+    const cells = parseCsvLine(line)
+    const name = cells[nameColumn]
+    if (!name) return []
+
+    const type = typeColumn >= 0 ? labelType(cells[typeColumn]) : null
+    const quantity = Number(cells[quantityColumn]) || 1
+    return [{ line, name, type: type ?? guessComponentType(name), quantity }]
+  })
+}
+
+// "CPU: AMD Ryzen 5 7600 ($199.99 @ Amazon)", "- 2x Corsair Vengeance 8GB DDR4"
+function parsePlainLine(line: string): ParsedPart | null {
+  let text = stripMarkup(line.replace(/^(?:[-*•]|\d+[.)])\s+/, "")).trim()
+  if (!text || /^https?:\/\/\S+$/.test(text) || SKIP_LINE.test(text)) return null
+
+  let type: ComponentType | null = null
+  const labelled = text.match(/^([a-z][a-z ]{1,20}):\s+(.+)$/i)
+  if (labelled && labelType(labelled[1])) {
+    type = labelType(labelled[1])
+    text = labelled[2]
+  }
+
+  const { name, quantity } = splitQuantity(stripPrice(text))
+  return name ? { line, name, type: type ?? guessComponentType(name), quantity } : null
+}
+
+export function parsePartsList(text: string): ParsedPart[] {
+  const lines = text
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter(Boolean)
+  if (lines.length === 0) return []
+
+  if (lines[0].includes(",") && /\b(part|name|item|product)\b/i.test(lines[0])) return parseCsv(lines)
+
+  return lines.flatMap((line) => {
+    // Table rows have at least two cell separators; a single "|" may be part of a name
+    const part = (line.match(/(?<!\\)\|/g) || []).length >= 2 ? parseTableRow(line) : parsePlainLine(line)
+    return part ? [part] : []
+  })
+}
+
+// Shop searches match words literally, so leave out clock speeds, core counts, kit layouts and
+// category words that shops don't put in their listing names
+export function searchQueryFor(name: string): string {
+  return name
+    .replace(/\([^)]*\)/g, " ")
+    .replace(/\b\d+(?:\.\d+)?\s*ghz\b/gi, " ")
+    .replace(/\b\d+-core\b/gi, " ")
+    .replace(/\b(?:processor|motherboard|desktop memory|video card|graphics card|power supply|computer case)\b/gi, " ")
+    .replace(/\s+/g, " ")
+    .trim()
+    .split(" ")
+    .slice(0, 6)
+    .join(" ")
+}
+
+function words(text: string): string[] {
+  return text.toLowerCase().match(/[a-z0-9]+(?:\.\d+)?/g) || []
+}
+
+// Share of the pasted name's words found in the listing name; model numbers (words with digits)
+// count double, since "7600" vs "5600" matters more than a missing brand
+export function matchConfidence(name: string, listingName: string): number {
+  const wanted = Array.from(new Set(words(searchQueryFor(name))))
+  if (wanted.length === 0) return 0
+
+  const listed = new Set(words(listingName))
+  let found = 0
+  let total = 0
+  wanted.forEach((word) => {
+    const weight = /\d/.test(word) ? 2 : 1
+    total += weight
+    if (listed.has(word)) found += weight
+  })
+
+  return Math.round((found / total) * 100)
+}
+
+// Best matches first; among equally good ones, in-stock and then cheaper listings win
+export function rankMatches(name: string, components: Component[]): ImportMatch[] {
+  return components
+    .filter((component) => (component.price.current ?? 0) > 0)
+    .map((component) => ({ component, confidence: matchConfidence(name, component.name) }))
+    .sort(
+      (a, b) =>
+        b.confidence - a.confidence ||
+        Number(isPurchasable(b.component.availability)) - Number(isPurchasable(a.component.availability)) ||
+        a.component.price.current! - b.component.price.current!,
+    )
+}
+
+// Search every shop for a pasted part. With a known category the components route filters out
+// other kinds of parts; otherwise the category is guessed from the best listing found
+export async function findMatches(part: ParsedPart): Promise<{ type: ComponentType | null; matches: ImportMatch[] }> {
+  const query = encodeURIComponent(searchQueryFor(part.name))
+  const response = await fetch(
+    part.type ? `/api/components?type=${part.type}&search=${query}&limit=5` : `/api/products?query=${query}&limit=5`,
+  )
+  if (!response.ok) throw new Error(`Failed to search for ${part.name}: ${response.status}`)
+
+  const data = await response.json()
+  const matches = rankMatches(part.name, data.components || data.products || []).slice(0, 5)
+  const type = part.type ?? (matches[0] ? guessComponentType(matches[0].component.name) : null)
+
+  return { type, matches }
+}
+
+// The build from the reviewed lines, each with the listing picked for it. A listing pasted twice
+// adds up, like picking it twice in the builder
+export function importedBuild(parts: { type: ComponentType; component: Component; quantity: number }[]): Build {
+  return parts.reduce((build, { type, component, quantity }) => {
+    if (!allowsMultiple(type)) return addItem(build, type, component)
+
+    const existing = build[type]?.find((item) => item.url === component.url)
+    return setQuantity(addItem(build, type, component), type, component.url, (existing?.quantity ?? 0) + quantity)
+  }, {} as Build)
+}
@@ -0,0 +1,195 @@
+// Rough power draw estimates for a build, used to size the power supply
+import type { ComponentType } from "@/lib/retailers/types"
+
+export interface PowerPart {
+  name: string
+  specs?: Record<string, string>
+  quantity?: number
+}
+
+export interface PowerEstimate {
+  // Estimated draw under full load, per category and in total
+  breakdown: Partial<Record<ComponentType, number>>
+  loadWatts: number
+  recommendedWatts: number
+  // Wattage of the selected power supply, when one is picked and its listing names it
+  psuWatts: number | null
+}
+
+// Modern GPUs spike well past their rated board power, so leave 40% headroom and round up to a common size
+const HEADROOM = 1.4
+const PSU_STEP = 50
+
+// Typical draw of everything we can't read a rating from
+const CATEGORY_WATTS: Partial<Record<ComponentType, number>> = {
+  motherboard: 50,
+  memory: 10,
+  storage: 8,
+  "cpu-cooler": 10,
+  case: 15, // bundled fans and RGB
+}
+
+const UNKNOWN_CPU_WATTS = 125
+const UNKNOWN_GPU_WATTS = 200
+
+// Board power of common cards, most specific model first
+const GPU_WATTS: [RegExp, number][] = [
+  [/rtx\s*5090/i, 575],
+  [/rtx\s*5080/i, 360],
+  [/rtx\s*5070\s*ti/i, 300],
+  [/rtx\s*5070/i, 250],
+  [/rtx\s*5060\s*ti/i, 180],
+  [/rtx\s*5060/i, 145],
+  [/rtx\s*4090/i, 450],
+  [/rtx\s*4080/i, 320],
+  [/rtx\s*4070\s*ti/i, 285],
+  [/rtx\s*4070\s*super/i, 220],
+  [/rtx\s*4070/i, 200],
+  [/rtx\s*4060\s*ti/i, 160],
+  [/rtx\s*4060/i, 115],
+  [/rtx\s*3090\s*ti/i, 450],
+  [/rtx\s*3090/i, 350],
+  [/rtx\s*3080\s*ti/i, 350],
+  [/rtx\s*3080/i, 320],
+  [/rtx\s*3070\s*ti/i, 290],
+  [/rtx\s*3070/i, 220],
+  [/rtx\s*3060\s*ti/i, 200],
+  [/rtx\s*3060/i, 170],
+  [/rtx\s*3050/i, 130],
+  [/rtx\s*2080/i, 225],
+  [/rtx\s*2070/i, 175],
+  [/rtx\s*2060/i, 160],
+  [/gtx\s*1660/i, 125],
+  [/gtx\s*16[35]0/i, 75],
+  [/gtx\s*10[78]0/i, 180],
+  [/gtx\s*1060/i, 120],
+  [/gtx\s*1050/i, 75],
+  [/gt\s*1030/i, 30],
+  [/gt\s*7[13]0/i, 25],
+  [/rx\s*9070\s*xt/i, 304],
+  [/rx\s*9070/i, 220],
+  [/rx\s*9060\s*xt/i, 160],
+  [/rx\s*7900\s*xtx/i, 355],
+  [/rx\s*7900\s*xt/i, 315],
+  [/rx\s*7900\s*gre/i, 260],
+  [/rx\s*7800\s*xt/i, 263],
+  [/rx\s*7700\s*xt/i, 245],
+  [/rx\s*7600\s*xt/i, 190],
+  [/rx\s*7600/i, 165],
+  [/rx\s*69[05]0\s*xt/i, 335],
+  [/rx\s*6800\s*xt/i, 300],
+  [/rx\s*6800/i, 250],
+  [/rx\s*67[05]0\s*xt/i, 250],
+  [/rx\s*6700/i, 175],
+  [/rx\s*6650\s*xt/i, 180],
+  [/rx\s*6600\s*xt/i, 160],
+  [/rx\s*6600/i, 132],
+  [/rx\s*6500\s*xt/i, 107],
+  [/rx\s*6400/i, 53],
+  [/rx\s*5[78]0/i, 185],
+  [/rx\s*5[56]0/i, 75],
+  [/arc\s*b580/i, 190],
+  [/arc\s*b570/i, 150],
+  [/arc\s*a7[57]0/i, 225],
+  [/arc\s*a580/i, 185],
+  [/arc\s*a3[18]0/i, 75],
+]
+
+// Reads an explicit "65W" / "125 Watt" rating
+function ratedWatts(text: string): number | null {
+  const match = text.match(/(\d{2,4})\s*(?:W|watts?)\b/i)
+  return match ? Number(match[1]) : null
+}
+
+function specWatts(part: PowerPart, ...keys: string[]): number | null {
+  const entry = Object.entries(part.specs || {}).find(([key]) => keys.includes(key))
+  return entry ? ratedWatts(entry[1]) : null
+}
+
+// Sustained draw of a CPU under load, from its rating or a rough guess by tier
+export function estimateCpuWatts(part: PowerPart): number {
+  const rated = specWatts(part, "TDP", "Power") ?? ratedWatts(part.name)
+  if (rated) return rated
+
+  const { name } = part
+  if (/pentium|celeron|athlon/i.test(name)) return 60
+
+  // Ryzen: APUs and non-X chips stay around 65 W, X parts boost well past it
+  const ryzen = name.match(/ryzen\s*([3579])\s*(?:pro\s*)?(\d)\d{2,3}(x3d|x|g)?/i)
+  if (ryzen) {
+    const [, tier, series, suffix = ""] = ryzen
+    if (/g/i.test(suffix) || !suffix) return 65
+    if (/x3d/i.test(suffix)) return 120
+    if (Number(series) >= 7) return tier === "9" ? 170 : 105
+    return tier === "5" ? 65 : 105
+  }
+
+  // Intel: unlocked K chips run at their much higher turbo power limit
+  const intel = name.match(/(?:\bi|ultra\s*)([3579])[\s-]*\d{3,5}(k)?/i)
+  if (intel) {
+    const tier = Number(intel[1])
+    const unlocked = Boolean(intel[2])
+    const watts: Record<number, [number, number]> = { 3: [90, 90], 5: [120, 180], 7: [180, 250], 9: [220, 250] }
+    return watts[tier][unlocked ? 1 : 0]
+  }
+
+  return UNKNOWN_CPU_WATTS
+}
+
+// Board power of a graphics card, from its rating or the GPU model
+export function estimateGpuWatts(part: PowerPart): number {
+  const rated = specWatts(part, "TBP", "TDP", "Power")
+  if (rated) return rated
+
+  const known = GPU_WATTS.find(([pattern]) => pattern.test(part.name))
+  return known ? known[1] : UNKNOWN_GPU_WATTS
+}
+
+// Output rating printed in a power supply's listing, e.g. "650W 80 Plus Bronze"
+export function parsePsuWatts(part: PowerPart): number | null {
+  const rated = specWatts(part, "Wattage", "Power") ?? ratedWatts(part.name)
+  // Anything below 200 W is a fan or adapter rating, not the PSU's capacity
+  return rated && rated >= 200 ? rated : null
+}
+
+// Estimated draw of one part, zero for things that don't run off the PSU
+export function estimatePartWatts(type: ComponentType, part: PowerPart): number {
+  switch (type) {
+    case "cpu":
+      return estimateCpuWatts(part)
+    case "video-card":
+      return estimateGpuWatts(part)
+    case "cpu-cooler":
+      // AIOs add a pump and more fans
+      return /liquid|aio|\b(240|280|360|420)\s*mm/i.test(part.name) ? 20 : CATEGORY_WATTS["cpu-cooler"]!
+    default:
+      return CATEGORY_WATTS[type] ?? 0
+  }
+}
+
+export function recommendedPsuWatts(loadWatts: number): number {
+  return Math.ceil((loadWatts * HEADROOM) / PSU_STEP) * PSU_STEP
+}
+
+export function estimatePower(parts: Partial<Record<ComponentType, PowerPart[]>>): PowerEstimate {
+  const breakdown: Partial<Record<ComponentType, number>> = {}
+
+  Object.entries(parts).forEach(([type, items]) => {
+    if (!items || type === "power-supply") return
+    const watts = items.reduce(
+      (total, part) => total + estimatePartWatts(type as ComponentType, part) * (part.quantity ?? 1),
+      0,
+    )
+    if (watts > 0) breakdown[type as ComponentType] = watts
+  })
+
+  const loadWatts = Object.values(breakdown).reduce((total, watts) => total + watts, 0)
+  const psu = parts["power-supply"]?.[0]
+
+  return {
+    breakdown,
+    loadWatts,
+    recommendedWatts: recommendedPsuWatts(loadWatts),
+    psuWatts: psu ? parsePsuWatts(psu) : null,
+  }
+}
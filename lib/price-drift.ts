@@ -0,0 +1,115 @@
+// Price drift: what a build's parts cost today compared with when they were picked, and
+// replacements for parts that can no longer be bought
+import { isPurchasable } from "@/lib/availability"
+import { buildItems, lineTotal, replaceItem, type Build, type BuildItem } from "@/lib/build"
+import { findMatches, MIN_CONFIDENCE } from "@/lib/parts-import"
+import { fetchCurrentListing, priceChange } from "@/lib/listing-lookup"
+import type { ComponentType, Product } from "@/lib/retailers/types"
+
+// "unknown" when the shop couldn't be checked
+export type DriftStatus = "unchanged" | "up" | "down" | "out-of-stock" | "missing" | "unknown"
+
+export interface PartDrift {
+  item: BuildItem
+  // The listing as it stands today, or null when the shop no longer lists it
+  current: Product | null
+  status: DriftStatus
+  // Change in the line total since the part was picked, or null when either price is unknown
+  change: number | null
+  // Other listings of the same part, for parts that can't be bought as picked
+  suggestions: Product[]
+}
+
+export interface DriftReport {
+  parts: PartDrift[]
+  checkedAt: string
+}
+
+const CHECKED_AT_STORAGE_KEY = "pcBuildPricesCheckedAt"
+
+// Reloading the builder within this long of a check doesn't check again
+const CHECK_INTERVAL = 60 * 60 * 1000
+
+// Replacements suggested per unavailable part
+const SUGGESTION_LIMIT = 3
+
+export function priceCheckDue(): boolean {
+  const checkedAt = Date.parse(localStorage.getItem(CHECKED_AT_STORAGE_KEY) || "")
+  return !(Date.now() - checkedAt < CHECK_INTERVAL)
+}
+
+function driftStatus(item: BuildItem, current: Product | null | undefined): DriftStatus {
+  if (current === undefined) return "unknown"
+  if (current === null) return "missing"
+  if (!isPurchasable(current.availability)) return "out-of-stock"
+
+  const change = priceChange(item, current.price)
+  if (!change) return "unchanged"
+  return change > 0 ? "up" : "down"
+}
+
+// In-stock listings of the same part at any shop, best match first
+async function suggestReplacements(item: BuildItem): Promise<Product[]> {
+  try {
+    const { matches } = await findMatches({
+      line: item.name,
+      name: item.name,
+      type: item.type as ComponentType,
+      quantity: item.quantity,
+    })
+    return matches
+      .filter(({ component, confidence }) => confidence >= MIN_CONFIDENCE && component.url !== item.url)
+      .filter(({ component }) => isPurchasable(component.availability))
+      .slice(0, SUGGESTION_LIMIT)
+      .map(({ component }) => component)
+  } catch (error) {
+    console.error("Error finding replacements:", error)
+    return []
+  }
+}
+
+async function checkPart(item: BuildItem): Promise<PartDrift> {
+  let current: Product | null | undefined
+  try {
+    current = await fetchCurrentListing(item)
+  } catch (error) {
+    console.error("Error checking current price:", error)
+  }
+
+  const status = driftStatus(item, current)
+  const suggestions = status === "missing" || status === "out-of-stock" ? await suggestReplacements(item) : []
+  const change = current ? priceChange(item, current.price) : null
+  return { item, current: current ?? null, status, change, suggestions }
+}
+
+// Search every part's own shop again. Parts are checked side by side; one failing only marks that part
+export async function checkBuildPrices(build: Build): Promise<DriftReport> {
+  const parts = await Promise.all(buildItems(build).map(checkPart))
+  const checkedAt = new Date().toISOString()
+  localStorage.setItem(CHECKED_AT_STORAGE_KEY, checkedAt)
+  return { parts, checkedAt }
+}
+
+export function hasDrift(report: DriftReport): boolean {
+  return report.parts.some((part) => part.status !== "unchanged" && part.status !== "unknown")
+}
+
+// Build total as picked and as it stands today. Parts without a price today count at their picked
+// price, so the difference is only what actually moved
+export function driftTotals(report: DriftReport): { saved: number; current: number; change: number } {
+  const saved = report.parts.reduce((total, part) => total + lineTotal(part.item), 0)
+  const change = report.parts.reduce((total, part) => total + (part.change ?? 0), 0)
+  return { saved, current: saved + change, change }
+}
+
+// The build with today's price and stock status for every part its shop still lists
+export function refreshedBuild(build: Build, report: DriftReport): Build {
+  return report.parts.reduce((updated, { item, current }) => {
+    if (!current) return updated
+    return replaceItem(updated, item.type, item.url, {
+      ...item,
+      price: current.price.current ? current.price : item.price,
+      availability: current.availability,
+    })
+  }, build)
+}
@@ -0,0 +1,88 @@
+// Structured prices shared by the API routes and the pages
+
+// "priced" means the listing shows an amount we can add up
+export type PriceStatus = "priced" | "call-for-price" | "tba" | "upcoming"
+
+export interface Price {
+  // Price the shop is asking today, null when no amount is shown
+  current: number | null
+  // Pre-discount price when the listing shows one
+  regular: number | null
+  currency: "BDT"
+  discountPercent: number | null
+  // Text exactly as scraped, kept for debugging and old clients
+  raw: string
+  status: PriceStatus
+}
+
+// Phrases shops print instead of an amount
+const STATUS_PHRASES: [RegExp, PriceStatus][] = [
+  [/call\s*for\s*price|call\s*for\s*details|contact\s*for\s*price/i, "call-for-price"],
+  [/\btba\b|to\s*be\s*announced/i, "tba"],
+  [/up\s*-?\s*coming|coming\s*soon/i, "upcoming"],
+]
+
+// Pull every amount out of a price string, e.g. "৳ 12,500 ৳ 13,000" -> [12500, 13000]
+function extractAmounts(text: string): number[] {
+  const matches = text.replace(/\u00a0/g, " ").match(/\d[\d,]*(?:\.\d+)?/g) || []
+  return matches.map((match) => Number.parseFloat(match.replace(/,/g, ""))).filter((amount) => amount > 0)
+}
+
+export function createPrice(raw: string, current: number | null, regular: number | null = null): Price {
+  const phrase = STATUS_PHRASES.find(([pattern]) => pattern.test(raw))
+  const status: PriceStatus = current !== null ? "priced" : phrase ? phrase[1] : "call-for-price"
+
+  // Only keep a regular price that is actually higher than what we pay
+  const regularPrice = current !== null && regular !== null && regular > current ? regular : null
+  const discountPercent =
+    current !== null && regularPrice !== null ? Math.round(((regularPrice - current) / regularPrice) * 100) : null
+
+  return {
+    current,
+    regular: regularPrice,
+    currency: "BDT",
+    discountPercent,
+    raw,
+    status,
+  }
+}
+
+// Parse free-text price as shown on a listing; the first amount is the one charged
+export function parsePrice(raw: string): Price {
+  const text = raw.replace(/\s+/g, " ").trim()
+  const [current = null, regular = null] = extractAmounts(text)
+  return createPrice(text, current, regular)
+}
+
+// Parse a discounted listing where the sale and regular prices sit in separate elements
+export function parseDiscountedPrice(special: string, regular: string): Price {
+  const [current = null] = extractAmounts(special)
+  const [regularAmount = null] = extractAmounts(regular)
+  return createPrice(`${special} ${regular}`.replace(/\s+/g, " ").trim(), current, regularAmount)
+}
+
+// Builds and compare lists saved before prices were structured still hold strings
+export function toPrice(price: Price | string | null | undefined): Price {
+  if (!price) return parsePrice("")
+  return typeof price === "string" ? parsePrice(price) : price
+}
+
+export function formatAmount(amount: number): string {
+  return `৳ ${amount.toLocaleString()}`
+}
+
+// Human readable price for labels and totals
+export function formatPrice(price: Price | string | null | undefined): string {
+  const { current, status } = toPrice(price)
+
+  if (current !== null) return formatAmount(current)
+
+  switch (status) {
+    case "tba":
+      return "TBA"
+    case "upcoming":
+      return "Upcoming"
+    default:
+      return "Call for Price"
+  }
+}
@@ -0,0 +1,11 @@
+// Where to buy a build: per-shop totals and the cheapest mix of shops
+export type {
+  CrossSiteMatches,
+  OptimizerOptions,
+  PlanAssignment,
+  PurchasePlan,
+  RetailerOffer,
+  RetailerTotal,
+} from "./types"
+export { DEFAULT_OPTIMIZER_OPTIONS, optimizePurchase } from "./optimizer"
+export { offerAt, rankRetailerTotals, retailerTotal, retailerTotals } from "./totals"
@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest"
+import type { Build } from "@/lib/build"
+import { optimizePurchase } from "./optimizer"
+import { item, offer } from "./test-fixtures"
+import type { CrossSiteMatches } from "./types"
+
+const cpu = item("cpu", offer("A", 20000))
+const gpu = item("video-card", offer("A", 50000))
+const ram = item("memory", offer("A", 5000), 2)
+const build: Build = { cpu: [cpu], "video-card": [gpu], memory: [ram] }
+
+// B is cheapest for the CPU, C for the GPU and the memory
+const crossSitePrices: Record<string, CrossSiteMatches> = {
+  [cpu.url]: { B: offer("B", 18000), C: offer("C", 19500) },
+  [gpu.url]: { B: offer("B", 49000), C: offer("C", 47000) },
+  [ram.url]: { B: offer("B", 4800), C: offer("C", 4600) },
+}
+
+const sources = (plan: ReturnType<typeof optimizePurchase>) => plan.assignments.map(({ offer }) => offer.source)
+
+describe("optimizePurchase", () => {
+  it("buys every part at its cheapest shop without a shop limit", () => {
+    const plan = optimizePurchase(build, crossSitePrices, { inStockOnly: true, maxShops: null })
+    expect(sources(plan)).toEqual(["B", "C", "C"])
+    expect(plan.total).toBe(18000 + 47000 + 2 * 4600)
+    expect(plan.shops.sort()).toEqual(["B", "C"])
+    expect(plan.unassigned).toEqual([])
+  })
+
+  it("compares the plan with the cheapest single shop", () => {
+    const plan = optimizePurchase(build, crossSitePrices, { inStockOnly: true, maxShops: null })
+    expect(plan.bestSingleRetailer).toEqual({ retailer: "C", total: 19500 + 47000 + 2 * 4600 })
+    expect(plan.savings).toBe(1500)
+  })
+
+  it("keeps to the shop limit, picking the cheapest set of shops", () => {
+    const plan = optimizePurchase(build, crossSitePrices, { inStockOnly: true, maxShops: 1 })
+    expect(plan.shops).toEqual(["C"])
+    expect(plan.total).toBe(19500 + 47000 + 2 * 4600)
+    expect(plan.savings).toBe(0)
+  })
+
+  it("prefers covering more parts over a lower total when the limit leaves some out", () => {
+    const prices: Record<string, CrossSiteMatches> = { [cpu.url]: { B: offer("B", 100) }, [gpu.url]: {}, [ram.url]: {} }
+    const plan = optimizePurchase(build, prices, { inStockOnly: true, maxShops: 1 })
+    expect(plan.shops).toEqual(["A"])
+    expect(plan.unassigned).toEqual([])
+  })
+
+  it("skips out-of-stock offers only in in-stock mode", () => {
+    const prices: Record<string, CrossSiteMatches> = {
+      ...crossSitePrices,
+      [gpu.url]: { C: offer("C", 40000, "out-of-stock") },
+    }
+
+    const inStock = optimizePurchase(build, prices, { inStockOnly: true, maxShops: null })
+    expect(inStock.assignments.find(({ item }) => item === gpu)!.offer.source).toBe("A")
+
+    const any = optimizePurchase(build, prices, { inStockOnly: false, maxShops: null })
+    expect(any.assignments.find(({ item }) => item === gpu)!.offer.source).toBe("C")
+  })
+
+  it("leaves parts with no priced listing unassigned and out of the total", () => {
+    const unpriced = item("case", offer("A", null))
+    const prices: Record<string, CrossSiteMatches> = { ...crossSitePrices, [unpriced.url]: { B: offer("B", null) } }
+    const plan = optimizePurchase({ ...build, case: [unpriced] }, prices, { inStockOnly: true, maxShops: null })
+    expect(plan.unassigned).toEqual([unpriced])
+    expect(plan.total).toBe(18000 + 47000 + 2 * 4600)
+  })
+
+  it("keeps the build's own pick when another shop ties on price", () => {
+    const prices: Record<string, CrossSiteMatches> = { [cpu.url]: { B: offer("B", 20000) } }
+    const plan = optimizePurchase({ cpu: [cpu] }, prices, { inStockOnly: true, maxShops: null })
+    expect(plan.assignments[0]).toMatchObject({ offer: { source: "A" }, changed: false })
+  })
+})
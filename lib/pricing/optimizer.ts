@@ -0,0 +1,101 @@
+// Cheapest way to buy a build when parts may come from different shops
+import { isPurchasable } from "@/lib/availability"
+import { buildItems, lineTotal, type Build, type BuildItem } from "@/lib/build"
+import type { CrossSiteMatches, OptimizerOptions, PlanAssignment, PurchasePlan, RetailerOffer } from "./types"
+
+export const DEFAULT_OPTIMIZER_OPTIONS: OptimizerOptions = { inStockOnly: true, maxShops: null }
+
+// Every shop that could sell the item: the build's own pick plus its cross-site matches
+function offersFor(item: BuildItem, matches: CrossSiteMatches | undefined, options: OptimizerOptions): RetailerOffer[] {
+  const offers: RetailerOffer[] = [item]
+  Object.entries(matches || {}).forEach(([retailer, offer]) => {
+    if (offer && retailer !== item.source) offers.push(offer)
+  })
+
+  return offers.filter(
+    (offer) => (offer.price.current ?? 0) > 0 && (!options.inStockOnly || isPurchasable(offer.availability)),
+  )
+}
+
+// Lowest priced offer from the allowed shops; on a tie the build's current pick stays
+function cheapestOffer(item: BuildItem, offers: RetailerOffer[], shops: Set<string>): RetailerOffer | null {
+  return offers.reduce<RetailerOffer | null>((best, offer) => {
+    if (!shops.has(offer.source)) return best
+    if (!best || offer.price.current! < best.price.current!) return offer
+    if (offer.price.current === best.price.current && offer.url === item.url) return offer
+    return best
+  }, null)
+}
+
+function combinations<T>(values: T[], size: number): T[][] {
+  if (size === 0) return [[]]
+  if (values.length < size) return []
+
+  const [first, ...rest] = values
+  return [...combinations(rest, size - 1).map((combo) => [first, ...combo]), ...combinations(rest, size)]
+}
+
+function assign(items: BuildItem[], offers: Map<BuildItem, RetailerOffer[]>, shops: Set<string>) {
+  const assignments: PlanAssignment[] = []
+  const unassigned: BuildItem[] = []
+
+  items.forEach((item) => {
+    const offer = cheapestOffer(item, offers.get(item)!, shops)
+    if (!offer) {
+      unassigned.push(item)
+      return
+    }
+    assignments.push({
+      item,
+      offer,
+      lineTotal: lineTotal({ price: offer.price, quantity: item.quantity }),
+      changed: offer.url !== item.url,
+    })
+  })
+
+  const total = assignments.reduce((sum, assignment) => sum + assignment.lineTotal, 0)
+  return { assignments, unassigned, total }
+}
+
+// Pick a shop for every part so the whole build costs the least. With a shop limit, every set of
+// that many shops is tried (there are only a handful of retailers) and the one covering the most
+// parts at the lowest total wins
+export function optimizePurchase(
+  build: Build,
+  crossSitePrices: Record<string, CrossSiteMatches>,
+  options: OptimizerOptions = DEFAULT_OPTIMIZER_OPTIONS,
+): PurchasePlan {
+  const items = buildItems(build)
+  const offers = new Map(items.map((item) => [item, offersFor(item, crossSitePrices[item.url], options)]))
+  const retailers = Array.from(
+    new Set(Array.from(offers.values()).flatMap((list) => list.map((offer) => offer.source))),
+  )
+
+  const shopLimit = options.maxShops ? Math.min(options.maxShops, retailers.length) : retailers.length
+  const best = combinations(retailers, shopLimit)
+    .map((shops) => assign(items, offers, new Set(shops)))
+    .reduce((best, plan) =>
+      plan.unassigned.length < best.unassigned.length ||
+      (plan.unassigned.length === best.unassigned.length && plan.total < best.total)
+        ? plan
+        : best,
+    )
+
+  // Single-shop totals only count shops that sell every part the plan buys
+  const singleTotals = retailers
+    .map((retailer) => ({ retailer, ...assign(items, offers, new Set([retailer])) }))
+    .filter(
+      (single) =>
+        best.assignments.length > 0 &&
+        best.assignments.every(({ item }) => single.assignments.some((assignment) => assignment.item === item)),
+    )
+    .sort((a, b) => a.total - b.total)
+  const bestSingle = singleTotals[0]
+
+  return {
+    ...best,
+    shops: Array.from(new Set(best.assignments.map((assignment) => assignment.offer.source))),
+    bestSingleRetailer: bestSingle ? { retailer: bestSingle.retailer, total: bestSingle.total } : null,
+    savings: bestSingle ? bestSingle.total - best.total : null,
+  }
+}
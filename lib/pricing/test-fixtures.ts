@@ -0,0 +1,21 @@
+// Offers and build items for the pricing tests
+import type { Availability } from "@/lib/availability"
+import type { BuildItem } from "@/lib/build"
+import { createPrice } from "@/lib/price"
+import type { RetailerOffer } from "./types"
+
+// A listing at `source`; a null amount is a listing without a price
+export function offer(source: string, amount: number | null, availability: Availability = "in-stock"): RetailerOffer {
+  return {
+    name: `Part at ${source}`,
+    price: createPrice(amount === null ? "Call for Price" : String(amount), amount),
+    image: "",
+    availability,
+    source,
+    url: `https://${source}.test/${amount}`,
+  }
+}
+
+export function item(type: string, picked: RetailerOffer, quantity = 1): BuildItem {
+  return { ...picked, type, quantity }
+}
@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest"
+import type { Build } from "@/lib/build"
+import { item, offer } from "./test-fixtures"
+import { rankRetailerTotals, retailerTotal, retailerTotals } from "./totals"
+import type { CrossSiteMatches } from "./types"
+
+const cpu = item("cpu", offer("A", 20000))
+const ram = item("memory", offer("A", 5000), 2)
+const build: Build = { cpu: [cpu], memory: [ram] }
+
+const crossSitePrices: Record<string, CrossSiteMatches> = {
+  [cpu.url]: { B: offer("B", 19000), C: offer("C", 21000, "out-of-stock") },
+  [ram.url]: { B: offer("B", 4500), C: null },
+}
+
+describe("retailerTotal", () => {
+  it("counts the build's own pick at the shop it was picked from", () => {
+    const total = retailerTotal(build, crossSitePrices, "A")
+    expect(total).toMatchObject({ total: 30000, matched: 2, partCount: 2, complete: true })
+  })
+
+  it("adds cross-site matches, multiplied by quantity", () => {
+    const total = retailerTotal(build, crossSitePrices, "B")
+    expect(total.total).toBe(19000 + 2 * 4500)
+    expect(total.complete).toBe(true)
+  })
+
+  it("lists parts the shop doesn't carry as missing and unsellable ones as out of stock", () => {
+    const total = retailerTotal(build, crossSitePrices, "C")
+    expect(total.total).toBe(21000)
+    expect(total.missing).toEqual([ram])
+    expect(total.outOfStock).toEqual([cpu])
+    expect(total.complete).toBe(false)
+  })
+
+  it("treats a listing without a price as missing", () => {
+    const prices: Record<string, CrossSiteMatches> = { ...crossSitePrices, [cpu.url]: { D: offer("D", null) } }
+    const total = retailerTotal(build, prices, "D")
+    expect(total.matched).toBe(0)
+    expect(total.total).toBe(0)
+    expect(total.missing).toEqual([cpu, ram])
+  })
+
+  it("never calls an empty build complete", () => {
+    expect(retailerTotal({}, {}, "A").complete).toBe(false)
+  })
+})
+
+describe("rankRetailerTotals", () => {
+  it("puts complete shops first, cheapest first, then the rest by coverage", () => {
+    const ranked = rankRetailerTotals(retailerTotals(build, crossSitePrices, ["C", "A", "B"]))
+    expect(ranked.map((total) => total.retailer)).toEqual(["B", "A", "C"])
+  })
+
+  it("ranks a cheap shop missing parts below one covering more of the build", () => {
+    const prices: Record<string, CrossSiteMatches> = {
+      [cpu.url]: { D: offer("D", 100), E: offer("E", 30000) },
+      [ram.url]: { E: offer("E", 4000, "out-of-stock") },
+    }
+    const totals = retailerTotals(build, prices, ["D", "E"])
+    expect(rankRetailerTotals(totals).map((total) => total.retailer)).toEqual(["E", "D"])
+  })
+
+  it("keeps the given order for shops tied on total", () => {
+    const prices: Record<string, CrossSiteMatches> = {
+      [cpu.url]: { B: offer("B", 20000), C: offer("C", 20000) },
+      [ram.url]: { B: offer("B", 5000), C: offer("C", 5000) },
+    }
+    const totals = retailerTotals(build, prices, ["C", "B", "A"])
+    expect(rankRetailerTotals(totals).map((total) => total.retailer)).toEqual(["C", "B", "A"])
+  })
+})
@@ -0,0 +1,65 @@
+// What the whole build costs at each shop, and how much of it the shop can actually sell
+import { isPurchasable } from "@/lib/availability"
+import { buildItems, lineTotal, type Build, type BuildItem } from "@/lib/build"
+import type { CrossSiteMatches, RetailerOffer, RetailerTotal } from "./types"
+
+// The shop's listing for a build item: the item itself when it was picked there, otherwise its cross-site match
+export function offerAt(
+  item: BuildItem,
+  matches: CrossSiteMatches | undefined,
+  retailer: string,
+): RetailerOffer | null {
+  if (item.source === retailer) return item
+  return matches?.[retailer] ?? null
+}
+
+export function retailerTotal(
+  build: Build,
+  crossSitePrices: Record<string, CrossSiteMatches>,
+  retailer: string,
+): RetailerTotal {
+  const items = buildItems(build)
+  const result: RetailerTotal = {
+    retailer,
+    total: 0,
+    matched: 0,
+    partCount: items.length,
+    missing: [],
+    outOfStock: [],
+    complete: false,
+  }
+
+  items.forEach((item) => {
+    const offer = offerAt(item, crossSitePrices[item.url], retailer)
+    // A listing without a price (call for price, upcoming) can't be added to the total
+    if (!offer || !offer.price.current) {
+      result.missing.push(item)
+      return
+    }
+
+    result.matched++
+    result.total += lineTotal({ price: offer.price, quantity: item.quantity })
+    if (!isPurchasable(offer.availability)) result.outOfStock.push(item)
+  })
+
+  result.complete = items.length > 0 && result.missing.length === 0 && result.outOfStock.length === 0
+  return result
+}
+
+export function retailerTotals(
+  build: Build,
+  crossSitePrices: Record<string, CrossSiteMatches>,
+  retailers: string[],
+): RetailerTotal[] {
+  return retailers.map((retailer) => retailerTotal(build, crossSitePrices, retailer))
+}
+
+// Shops that can sell the whole build come first, cheapest first; the rest follow by how much of
+// the build they cover, so a shop missing the GPU never looks like the best deal
+export function rankRetailerTotals(totals: RetailerTotal[]): RetailerTotal[] {
+  return [...totals].sort((a, b) => {
+    if (a.complete !== b.complete) return a.complete ? -1 : 1
+    if (!a.complete && a.matched !== b.matched) return b.matched - a.matched
+    return a.total - b.total
+  })
+}
@@ -0,0 +1,58 @@
+// Shared shapes for working out where to buy a build
+import type { Availability } from "@/lib/availability"
+import type { BuildItem } from "@/lib/build"
+import type { Price } from "@/lib/price"
+
+// A part as one shop lists it: the build's own pick, or a match from the cross-site search
+export interface RetailerOffer {
+  name: string
+  price: Price
+  image: string
+  availability: Availability
+  source: string
+  url: string
+  specs?: Record<string, string>
+}
+
+// Cross-site matches for one build item, keyed by retailer; null when the shop has no match
+export type CrossSiteMatches = Record<string, RetailerOffer | null>
+
+export interface OptimizerOptions {
+  // Only buy parts the shop has in stock today
+  inStockOnly: boolean
+  // Most shops the plan may buy from, since each one is a separate trip or delivery; null for no limit
+  maxShops: number | null
+}
+
+export interface PlanAssignment {
+  item: BuildItem
+  offer: RetailerOffer
+  lineTotal: number
+  // Whether the plan buys the part somewhere other than the build's current pick
+  changed: boolean
+}
+
+export interface PurchasePlan {
+  assignments: PlanAssignment[]
+  // Parts no allowed shop has a usable price for; they are left out of every total
+  unassigned: BuildItem[]
+  shops: string[]
+  total: number
+  // Cheapest shop that sells every assigned part on its own, to show what mixing shops saves
+  bestSingleRetailer: { retailer: string; total: number } | null
+  savings: number | null
+}
+
+export interface RetailerTotal {
+  retailer: string
+  // Sum of the parts the shop has a price for
+  total: number
+  matched: number
+  partCount: number
+  // Parts the shop doesn't list, or lists without a price
+  missing: BuildItem[]
+  // Parts the shop lists but can't sell today
+  outOfStock: BuildItem[]
+  // Every part is listed, priced and in stock
+  complete: boolean
+}
@@ -0,0 +1,50 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import type { Build, BuildItem } from "./build"
+import { createPrice } from "./price"
+import { loadPurchased, savePurchased } from "./purchase-checklist"
+
+const item = (url: string): BuildItem => ({
+  type: "cpu",
+  name: url,
+  price: createPrice("1,000", 1000),
+  image: "",
+  availability: "in-stock",
+  source: "Shop",
+  url,
+  quantity: 1,
+})
+
+beforeEach(() => {
+  const storage = new Map<string, string>()
+  vi.stubGlobal("localStorage", {
+    getItem: (key: string) => storage.get(key) ?? null,
+    setItem: (key: string, value: string) => storage.set(key, value),
+  })
+})
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+})
+
+describe("purchased items", () => {
+  it("keeps the ticks of other builds when one build's part is ticked", () => {
+    const first: Build = { cpu: [item("https://shop.test/cpu")] }
+    const second: Build = { memory: [item("https://shop.test/ram")] }
+
+    savePurchased({ "https://shop.test/cpu": true })
+    savePurchased({ "https://shop.test/ram": true })
+
+    expect(loadPurchased(first)).toEqual({ "https://shop.test/cpu": true })
+    expect(loadPurchased(second)).toEqual({ "https://shop.test/ram": true })
+  })
+
+  it("forgets a part once it is unticked", () => {
+    const build: Build = { cpu: [item("https://shop.test/cpu")] }
+
+    savePurchased({ "https://shop.test/cpu": true })
+    savePurchased({ "https://shop.test/cpu": false })
+
+    expect(loadPurchased(build)).toEqual({ "https://shop.test/cpu": false })
+    expect(localStorage.getItem("pcBuildPurchased")).toBe("{}")
+  })
+})
@@ -0,0 +1,90 @@
+// Shopping list for a build: its parts grouped by the shop they were picked from
+import { AVAILABILITY_LABELS } from "@/lib/availability"
+import { buildItems, lineTotal, type Build, type BuildItem } from "@/lib/build"
+import { formatAmount, formatPrice } from "@/lib/price"
+
+export interface ShopGroup {
+  retailer: string
+  items: BuildItem[]
+  subtotal: number
+}
+
+// Build items already bought, keyed by their URL
+export type PurchasedItems = Record<string, boolean>
+
+const PURCHASED_STORAGE_KEY = "pcBuildPurchased"
+
+// Biggest spend first, since that's the order most people shop in
+export function groupByRetailer(build: Build): ShopGroup[] {
+  const groups = new Map<string, ShopGroup>()
+
+  buildItems(build).forEach((item) => {
+    const group = groups.get(item.source) || { retailer: item.source, items: [], subtotal: 0 }
+    group.items.push(item)
+    group.subtotal += lineTotal(item)
+    groups.set(item.source, group)
+  })
+
+  return Array.from(groups.values()).sort((a, b) => b.subtotal - a.subtotal)
+}
+
+function readSaved(): PurchasedItems {
+  return JSON.parse(localStorage.getItem(PURCHASED_STORAGE_KEY) || "{}")
+}
+
+// Ticks are kept for parts still in the build only
+export function loadPurchased(build: Build): PurchasedItems {
+  try {
+    const saved = readSaved()
+    return Object.fromEntries(buildItems(build).map((item) => [item.url, Boolean(saved[item.url])]))
+  } catch (error) {
+    console.error("Error reading purchased items:", error)
+    return {}
+  }
+}
+
+// Merged into what's saved, which holds the ticks of every build and not just this one. Unticked parts
+// are dropped rather than kept as false
+export function savePurchased(purchased: PurchasedItems) {
+  try {
+    const merged = { ...readSaved(), ...purchased }
+    const ticked = Object.fromEntries(Object.entries(merged).filter(([, bought]) => bought))
+    localStorage.setItem(PURCHASED_STORAGE_KEY, JSON.stringify(ticked))
+  } catch (error) {
+    console.error("Error saving purchased items:", error)
+  }
+}
+
+function itemLine(item: BuildItem, index: number): string {
+  const quantity = item.quantity > 1 ? ` x${item.quantity}` : ""
+  return `${index + 1}. ${item.name}${quantity} - ${formatPrice(item.price)}`
+}
+
+// Plain text of the whole plan, for printing or saving
+export function checklistText(groups: ShopGroup[], purchased: PurchasedItems = {}): string {
+  const total = groups.reduce((sum, group) => sum + group.subtotal, 0)
+  const sections = groups.map((group) => {
+    const lines = group.items.map(
+      (item) =>
+        `[${purchased[item.url] ? "x" : " "}] ${item.name}${item.quantity > 1 ? ` x${item.quantity}` : ""}\n` +
+        `    ${formatPrice(item.price)} (${AVAILABILITY_LABELS[item.availability]})\n` +
+        `    ${item.url}`,
+    )
+    return [`${group.retailer} - ${formatAmount(group.subtotal)}`, ...lines].join("\n")
+  })
+
+  return ["PC Build Purchase List", "", sections.join("\n\n"), "", `Total: ${formatAmount(total)}`].join("\n")
+}
+
+// Order message to send a shop over WhatsApp or Messenger
+export function orderMessage(group: ShopGroup): string {
+  return [
+    "Hello, I would like to order the following items:",
+    "",
+    ...group.items.map((item, index) => `${itemLine(item, index)}\n${item.url}`),
+    "",
+    `Total: ${formatAmount(group.subtotal)}`,
+    "",
+    "Are these available? Thank you.",
+  ].join("\n")
+}
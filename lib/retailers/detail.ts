@@ -0,0 +1,154 @@
+import * as cheerio from "cheerio"
+import { cached, cachePolicy } from "@/lib/cache"
+import { fetchPage } from "./scraper"
+import type { ProductDetail, RetailerAdapter, RetailerReport, SpecGroup } from "./types"
+
+function cleanText(text: string): string {
+  return text.replace(/\s+/g, " ").trim()
+}
+
+// Read a selector's text, treating an empty selector or an empty match as missing
+function textOf($: cheerio.CheerioAPI, selector: string): string | null {
+  if (!selector) return null
+  return cleanText($(selector).first().text()) || null
+}
+
+function readImages($: cheerio.CheerioAPI, selector: string, pageUrl: string): string[] {
+  if (!selector) return []
+
+  const sources = $(selector)
+    .toArray()
+    .map((element) => {
+      const item = $(element)
+      return item.attr("href") || item.attr("data-src") || item.attr("src") || ""
+    })
+    .filter((src) => src && !src.startsWith("data:"))
+
+  return Array.from(new Set(sources.map((src) => new URL(src, pageUrl).href)))
+}
+
+// Rows of every spec table, starting a new group at each heading row. Rows before the first
+// heading go into an untitled "Specifications" group
+function readSpecGroups($: cheerio.CheerioAPI, adapter: RetailerAdapter): SpecGroup[] {
+  const { specTable, specHeading, specName, specValue } = adapter.detailSelectors
+  const groups: SpecGroup[] = []
+  let current: SpecGroup | null = null
+
+  $(specTable).each((_, table) => {
+    const headings = new Set($(table).find(specHeading).toArray())
+
+    $(table)
+      .find("tr")
+      .each((_, element) => {
+        const row = $(element)
+        const heading = row.children().toArray().find((cell) => headings.has(cell))
+
+        if (heading) {
+          current = { title: cleanText($(heading).text()), specs: {} }
+          groups.push(current)
+          return
+        }
+
+        const name = cleanText(row.find(specName).first().text())
+        const value = cleanText(row.find(specValue).first().text())
+        if (!name || !value || name === value) return
+
+        if (!current) {
+          current = { title: "Specifications", specs: {} }
+          groups.push(current)
+        }
+        current.specs[name] = value
+      })
+  })
+
+  return groups.filter((group) => Object.keys(group.specs).length > 0)
+}
+
+function findSpec(groups: SpecGroup[], pattern: RegExp): string | null {
+  for (const group of groups) {
+    const entry = Object.entries(group.specs).find(([name]) => pattern.test(name))
+    if (entry) return entry[1]
+  }
+  return null
+}
+
+// Parse a product page with the adapter's detail selectors. Brand and warranty fall back to the
+// spec table and key features, where most shops list them
+export function parseProductDetail(adapter: RetailerAdapter, html: string, url: string): ProductDetail {
+  const { detailSelectors: selectors } = adapter
+  const $ = cheerio.load(html)
+
+  const specGroups = readSpecGroups($, adapter)
+  const keyFeatures = selectors.keyFeatures
+    ? $(selectors.keyFeatures)
+        .toArray()
+        .map((element) => cleanText($(element).text()))
+        .filter(Boolean)
+    : []
+  const warrantyFeature = keyFeatures.find((feature) => /warranty/i.test(feature))
+
+  return {
+    name: textOf($, selectors.name) ?? "",
+    url,
+    source: adapter.name,
+    brand: textOf($, selectors.brand) ?? findSpec(specGroups, /^brand$/i),
+    warranty:
+      findSpec(specGroups, /warranty/i) ?? warrantyFeature?.replace(/^[^:]*warranty[^:]*:\s*/i, "") ?? null,
+    description: textOf($, selectors.description),
+    keyFeatures,
+    images: readImages($, selectors.images, url),
+    specGroups,
+  }
+}
+
+// Fetch and parse a single product page, never throwing
+async function scrapeProductDetail(
+  adapter: RetailerAdapter,
+  url: string,
+): Promise<{ detail: ProductDetail | null; report: RetailerReport }> {
+  const startedAt = Date.now()
+  const report = (status: RetailerReport["status"], error?: string): RetailerReport => ({
+    status,
+    latencyMs: Date.now() - startedAt,
+    itemCount: status === "ok" ? 1 : 0,
+    ...(error && { error }),
+  })
+
+  const page = await fetchPage(adapter, url)
+  if (!("html" in page)) return { detail: null, report: report(page.status, page.error) }
+
+  try {
+    const detail = parseProductDetail(adapter, page.html, url)
+
+    // No title means the page isn't a product page, or its markup no longer matches
+    if (!detail.name) return { detail: null, report: report("parse-error", "Product page markup did not match") }
+
+    return { detail, report: report("ok") }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error"
+    console.error(`Error parsing ${adapter.name} product page:`, message)
+    return { detail: null, report: report("parse-error", message) }
+  }
+}
+
+// A product page from the scrape cache, or fetched and parsed when there is no fresh copy. The URL comes
+// from the visitor, so it is reduced to the shop's own form of it first and every way of linking the same
+// page shares one entry
+export async function fetchProductDetail(
+  adapter: RetailerAdapter,
+  url: string,
+): Promise<{ detail: ProductDetail | null; report: RetailerReport }> {
+  const startedAt = Date.now()
+  const productUrl = adapter.productUrl(url)
+  const { value, cachedAt } = await cached(
+    `detail:${adapter.name}:${productUrl}`,
+    cachePolicy("detail"),
+    () => scrapeProductDetail(adapter, productUrl),
+    (result) => result.detail !== null,
+  )
+
+  return {
+    ...value,
+    report: { ...value.report, latencyMs: Date.now() - startedAt, cachedAt: new Date(cachedAt).toISOString() },
+  }
+}
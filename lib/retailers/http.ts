@@ -0,0 +1,179 @@
+// The one HTTP client every retailer request goes through: timeouts, retries with backoff, a circuit
+// breaker per shop, an optional proxy and bot-challenge detection
+import { limitHost } from "./requests"
+import type { RetailerAdapter, RetailerStatus } from "./types"
+
+export type PageResult = { html: string } | { status: Exclude<RetailerStatus, "ok" | "empty">; error: string }
+
+const DEFAULT_USER_AGENT =
+  "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/141.0.0.0 Safari/537.36"
+
+interface HttpConfig {
+  timeoutMs: number
+  // Further attempts after a 5xx response or a network error
+  retries: number
+  // Backoff before the first retry, doubled for each one after it
+  retryDelayMs: number
+  // Failed requests in a row that open a shop's circuit
+  breakerThreshold: number
+  // How long a shop with an open circuit is skipped
+  breakerCooldownMs: number
+  userAgent: string
+  // Proxy endpoint with a `{url}` placeholder for the page, or null to fetch shops directly
+  proxyUrl: string | null
+}
+
+function numberFromEnv(name: string, fallback: number): number {
+  const value = Number.parseFloat(process.env[name] || "")
+  return Number.isFinite(value) && value >= 0 ? value : fallback
+}
+
+// SCRAPE_TIMEOUT and SCRAPE_BREAKER_COOLDOWN are in seconds
+function httpConfig(): HttpConfig {
+  return {
+    timeoutMs: numberFromEnv("SCRAPE_TIMEOUT", 10) * 1000,
+    retries: Math.floor(numberFromEnv("SCRAPE_RETRIES", 2)),
+    retryDelayMs: 500,
+    breakerThreshold: Math.max(1, Math.floor(numberFromEnv("SCRAPE_BREAKER_THRESHOLD", 5))),
+    breakerCooldownMs: numberFromEnv("SCRAPE_BREAKER_COOLDOWN", 60) * 1000,
+    userAgent: process.env.SCRAPE_USER_AGENT || DEFAULT_USER_AGENT,
+    proxyUrl: process.env.SCRAPE_PROXY_URL || null,
+  }
+}
+
+// Challenge and captcha interstitials that some shops' CDNs serve with a 200 instead of the page
+const CHALLENGE_PATTERNS = [
+  /<title>\s*Just a moment\.\.\.\s*<\/title>/i,
+  /<title>\s*Attention Required! \| Cloudflare/i,
+  /window\._cf_chl_opt|cf-browser-verification/i,
+  /Checking your browser before accessing/i,
+  /<title>[^<]*(?:captcha|ddos-guard|security check)[^<]*<\/title>/i,
+]
+
+function isBotChallenge(response: Response, html: string): boolean {
+  return (
+    response.headers.get("cf-mitigated") === "challenge" || CHALLENGE_PATTERNS.some((pattern) => pattern.test(html))
+  )
+}
+
+interface Breaker {
+  failures: number
+  openUntil: number // ms since epoch
+}
+
+// Failures in a row by shop name
+const breakers = new Map<string, Breaker>()
+
+// Closed until `breakerThreshold` failures in a row, then skipped for the cool-down. Once it has passed one
+// request is let through to test the shop, and the rest are skipped until the next cool-down ends
+function circuitAllows(name: string, config: HttpConfig): boolean {
+  const breaker = breakers.get(name)
+  if (!breaker || breaker.failures < config.breakerThreshold) return true
+  if (Date.now() < breaker.openUntil) return false
+
+  breaker.openUntil = Date.now() + config.breakerCooldownMs
+  return true
+}
+
+function recordOutcome(name: string, result: PageResult, config: HttpConfig) {
+  if ("html" in result) {
+    breakers.delete(name)
+    return
+  }
+
+  const breaker = breakers.get(name) ?? { failures: 0, openUntil: 0 }
+  breaker.failures++
+  if (breaker.failures >= config.breakerThreshold) {
+    if (breaker.failures === config.breakerThreshold) {
+      console.warn(`Skipping ${name} for ${config.breakerCooldownMs / 1000}s after repeated failures`)
+    }
+    breaker.openUntil = Date.now() + config.breakerCooldownMs
+  }
+  breakers.set(name, breaker)
+}
+
+// One attempt, and whether a failure is worth retrying
+async function attempt(
+  adapter: RetailerAdapter,
+  url: string,
+  config: HttpConfig,
+): Promise<{ result: PageResult; retry: boolean; countsAsFailure: boolean }> {
+  const controller = new AbortController()
+  const timeoutId = setTimeout(() => controller.abort(), config.timeoutMs)
+  const target = config.proxyUrl ? config.proxyUrl.replace("{url}", encodeURIComponent(url)) : url
+
+  try {
+    const response = await fetch(target, {
+      // Freshness is up to the scrape cache, so always ask the shop
+      cache: "no-store",
+      signal: controller.signal,
+      headers: {
+        "User-Agent": config.userAgent,
+        ...adapter.headers,
+      },
+    })
+
+    if (!response.ok) {
+      console.warn(`Failed to fetch from ${adapter.name}: ${response.status}`)
+      // A 404 or 410 is about the page, not the shop, so it doesn't count against its circuit
+      const serverError = response.status >= 500
+      return {
+        result: { status: "http-error", error: `HTTP ${response.status}` },
+        retry: serverError,
+        countsAsFailure: serverError || response.status === 403 || response.status === 429,
+      }
+    }
+
+    const html = await response.text()
+    if (isBotChallenge(response, html)) {
+      console.warn(`${adapter.name} answered with a bot challenge`)
+      return {
+        result: { status: "blocked", error: "The shop served a bot check instead of the page" },
+        retry: false,
+        countsAsFailure: true,
+      }
+    }
+
+    return { result: { html }, retry: false, countsAsFailure: false }
+  } catch (error) {
+    // Not retried: a shop that didn't answer in time rarely does on a second try, and the visitor waits
+    if (controller.signal.aborted) {
+      console.warn(`Timed out fetching from ${adapter.name}`)
+      return {
+        result: { status: "timeout", error: `No response after ${config.timeoutMs / 1000}s` },
+        retry: false,
+        countsAsFailure: true,
+      }
+    }
+
+    const message = error instanceof Error ? error.message : "Unknown error"
+    console.error(`Error fetching from ${adapter.name}: ${message}`)
+    return { result: { status: "http-error", error: message }, retry: true, countsAsFailure: true }
+  } finally {
+    clearTimeout(timeoutId)
+  }
+}
+
+// Full jitter: anywhere between no wait and the exponential backoff, so retries from many requests spread out
+function backoff(retry: number, config: HttpConfig): Promise<void> {
+  const delay = Math.random() * config.retryDelayMs * 2 ** retry
+  return new Promise((resolve) => setTimeout(resolve, delay))
+}
+
+// Download a page from a shop, never throwing. Each attempt waits for a free slot at the shop, but
+// backoff between attempts doesn't hold one
+export async function fetchHtml(adapter: RetailerAdapter, url: string): Promise<PageResult> {
+  const config = httpConfig()
+  if (!circuitAllows(adapter.name, config)) {
+    return { status: "circuit-open", error: "Skipped for a while after repeated failures" }
+  }
+
+  let outcome = await limitHost(adapter.host, () => attempt(adapter, url, config))
+  for (let retry = 0; outcome.retry && retry < config.retries; retry++) {
+    await backoff(retry, config)
+    outcome = await limitHost(adapter.host, () => attempt(adapter, url, config))
+  }
+
+  if ("html" in outcome.result || outcome.countsAsFailure) recordOutcome(adapter.name, outcome.result, config)
+  return outcome.result
+}
@@ -0,0 +1,23 @@
+export type {
+  ComponentType,
+  Component,
+  DetailSelectors,
+  ListingPage,
+  ListingSelectors,
+  PriceTexts,
+  Product,
+  ProductDetail,
+  RetailerAdapter,
+  RetailerReport,
+  RetailerStatus,
+  RetailerStreamLine,
+  SpecGroup,
+} from "./types"
+export { COMPONENT_LABELS, COMPONENT_TYPES } from "./types"
+export type { OpenCartConfig } from "./opencart"
+export { createOpenCartAdapter } from "./opencart"
+export { guessComponentType, matchesComponentType } from "./matching"
+export { fetchProductDetail, parseProductDetail } from "./detail"
+export { getRetailer, retailerForUrl, retailers } from "./registry"
+export { oldestCachedAt } from "./reports"
+export { failedReport, fetchListings, fetchRetailerCategory, parseListing, searchRetailer } from "./scraper"
@@ -0,0 +1,103 @@
+// Guess what kind of part a listing is from its name
+import type { ComponentType } from "./types"
+
+// Whether a listing's name reads like a part of the given type, used to drop unrelated search results
+export function matchesComponentType(productName: string, type: string): boolean {
+  const productNameLower = productName.toLowerCase()
+
+  switch (type) {
+    case "cpu":
+      return (
+        productNameLower.includes("processor") ||
+        productNameLower.includes("cpu") ||
+        productNameLower.includes("ryzen") ||
+        productNameLower.includes("intel") ||
+        productNameLower.includes("core i") ||
+        productNameLower.includes("pentium") ||
+        productNameLower.includes("celeron") ||
+        productNameLower.includes("athlon")
+      )
+    case "cpu-cooler":
+      return (
+        productNameLower.includes("cooler") ||
+        productNameLower.includes("cooling") ||
+        productNameLower.includes("heatsink") ||
+        productNameLower.includes("fan") ||
+        productNameLower.includes("radiator") ||
+        productNameLower.includes("aio")
+      )
+    case "motherboard":
+      return (
+        productNameLower.includes("motherboard") ||
+        productNameLower.includes("mainboard") ||
+        productNameLower.includes("mobo")
+      )
+    case "memory":
+      return (
+        productNameLower.includes("ram") ||
+        productNameLower.includes("memory") ||
+        productNameLower.includes("ddr") ||
+        productNameLower.includes("dimm")
+      )
+    case "storage":
+      return (
+        productNameLower.includes("ssd") ||
+        productNameLower.includes("hdd") ||
+        productNameLower.includes("solid state") ||
+        productNameLower.includes("hard drive") ||
+        productNameLower.includes("storage") ||
+        productNameLower.includes("nvme") ||
+        productNameLower.includes("m.2")
+      )
+    case "video-card":
+      return (
+        productNameLower.includes("graphics") ||
+        productNameLower.includes("gpu") ||
+        productNameLower.includes("video card") ||
+        productNameLower.includes("geforce") ||
+        productNameLower.includes("radeon") ||
+        productNameLower.includes("rtx") ||
+        productNameLower.includes("gtx")
+      )
+    case "case":
+      return (
+        productNameLower.includes("case") ||
+        productNameLower.includes("casing") ||
+        productNameLower.includes("chassis") ||
+        productNameLower.includes("tower")
+      )
+    case "power-supply":
+      return (
+        productNameLower.includes("power supply") ||
+        productNameLower.includes("psu") ||
+        productNameLower.includes("watt")
+      )
+    case "monitor":
+      return (
+        productNameLower.includes("monitor") ||
+        productNameLower.includes("display") ||
+        productNameLower.includes("screen") ||
+        productNameLower.includes("inch")
+      )
+    default:
+      return false
+  }
+}
+
+// Checked in order, most specific first: a cooler's name mentions the CPU, a board's its DDR and M.2
+// support, an APU's its Radeon graphics and a graphics card's its GDDR memory and DisplayPorts
+const GUESS_ORDER: ComponentType[] = [
+  "cpu-cooler",
+  "motherboard",
+  "power-supply",
+  "storage",
+  "cpu",
+  "video-card",
+  "monitor",
+  "memory",
+  "case",
+]
+
+export function guessComponentType(productName: string): ComponentType | null {
+  return GUESS_ORDER.find((type) => matchesComponentType(productName, type)) ?? null
+}
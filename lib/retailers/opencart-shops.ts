@@ -0,0 +1,60 @@
+import type { OpenCartConfig } from "./opencart"
+
+// Category slugs used by shops that kept OpenCart's default URL layout
+const DEFAULT_SLUGS: OpenCartConfig["categorySlugs"] = {
+  cpu: "processor",
+  "cpu-cooler": "cpu-cooler",
+  motherboard: "motherboard",
+  memory: "ram",
+  storage: "storage-device",
+  "video-card": "graphics-card",
+  case: "casing",
+  "power-supply": "power-supply",
+  monitor: "monitor",
+}
+
+// Onboarding another OpenCart-based shop only needs a new entry here
+export const openCartShops: OpenCartConfig[] = [
+  {
+    name: "Techland",
+    baseUrl: "https://www.techlandbd.com",
+    categorySlugs: {
+      cpu: "pc-components/processor",
+      "cpu-cooler": "pc-components/cpu-cooler",
+      motherboard: "pc-components/motherboard",
+      memory: "pc-components/ram-memory",
+      storage: "pc-components/storage-device",
+      "video-card": "pc-components/graphics-card",
+      case: "pc-components/casing",
+      "power-supply": "pc-components/power-supply",
+      monitor: "shop-by-brands/monitor",
+    },
+  },
+  {
+    name: "UltraTech",
+    baseUrl: "https://www.ultratech.com.bd",
+    categorySlugs: DEFAULT_SLUGS,
+  },
+  {
+    name: "Potaka IT",
+    baseUrl: "https://www.potakait.com",
+    categorySlugs: DEFAULT_SLUGS,
+  },
+  {
+    name: "PC House",
+    baseUrl: "https://www.pchouse.com.bd",
+    categorySlugs: DEFAULT_SLUGS,
+    headers: {
+      Accept: "text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8",
+      "Accept-Language": "en-US,en;q=0.5",
+      Connection: "keep-alive",
+      "Upgrade-Insecure-Requests": "1",
+      "Cache-Control": "max-age=0",
+    },
+  },
+  {
+    name: "Skyland",
+    baseUrl: "https://www.skyland.com.bd",
+    categorySlugs: DEFAULT_SLUGS,
+  },
+]
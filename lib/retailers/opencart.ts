@@ -0,0 +1,70 @@
+import { DEFAULT_AVAILABILITY_PHRASES, type AvailabilityPhrase } from "@/lib/availability"
+import { canonicalProductUrl, parsePriceText, setPageParam } from "./parsers"
+import type { ComponentType, DetailSelectors, ListingSelectors, RetailerAdapter } from "./types"
+
+// Markup shared by the stock OpenCart themes most BD shops run
+const DEFAULT_SELECTORS: ListingSelectors = {
+  item: ".product-layout",
+  name: ".name a",
+  link: ".name a",
+  image: ".image img",
+  price: ".price",
+  specialPrice: ".price-new",
+  regularPrice: ".price-old",
+  stock: ".stock",
+  nextPage: ".pagination li.active + li a",
+}
+
+// Product page markup of the same themes: a thumbnail gallery and a specification tab
+const DEFAULT_DETAIL_SELECTORS: DetailSelectors = {
+  name: "#content h1",
+  images: ".thumbnails a",
+  specTable: "#tab-specification table",
+  specHeading: "thead td",
+  specName: "td:first-child",
+  specValue: "td:last-child",
+  keyFeatures: ".short-description li",
+  description: "#tab-description",
+  brand: "#content a[href*='manufacturer']",
+}
+
+// Everything that differs between one OpenCart shop and the next
+export interface OpenCartConfig {
+  name: string
+  // Shop root without a trailing slash, e.g. "https://www.skyland.com.bd"
+  baseUrl: string
+  // Category path below `baseUrl` for each component type
+  categorySlugs: Record<ComponentType, string>
+  // Only the selectors a theme changes need to be listed
+  selectors?: Partial<ListingSelectors>
+  detailSelectors?: Partial<DetailSelectors>
+  // Shop-specific stock labels, checked before the default phrases
+  availabilityPhrases?: AvailabilityPhrase[]
+  headers?: Record<string, string>
+}
+
+export function createOpenCartAdapter(config: OpenCartConfig): RetailerAdapter {
+  const { name, baseUrl, categorySlugs, headers } = config
+
+  const categoryUrls = Object.fromEntries(
+    Object.entries(categorySlugs).map(([type, slug]) => [type, `${baseUrl}/${slug}`]),
+  ) as Record<ComponentType, string>
+
+  const host = new URL(baseUrl).hostname
+
+  return {
+    name,
+    host,
+    headers,
+    searchUrl: (query) => `${baseUrl}/index.php?route=product/search&search=${encodeURIComponent(query)}`,
+    // OpenCart appends `&page=N` to its search and category routes
+    pageUrl: setPageParam,
+    // SEO paths need no query, while `index.php?route=product/product&product_id=N` is picked by both
+    productUrl: (url) => canonicalProductUrl(url, host, ["route", "product_id"]),
+    categoryUrls,
+    selectors: { ...DEFAULT_SELECTORS, ...config.selectors },
+    detailSelectors: { ...DEFAULT_DETAIL_SELECTORS, ...config.detailSelectors },
+    parsePrice: parsePriceText,
+    availabilityPhrases: [...(config.availabilityPhrases || []), ...DEFAULT_AVAILABILITY_PHRASES],
+  }
+}
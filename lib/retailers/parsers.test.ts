@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest"
+import { canonicalProductUrl, parsePriceText } from "./parsers"
+
+describe("parsePriceText", () => {
+  it("reads the first amount of the price block", () => {
+    const price = parsePriceText({ price: "৳ 12,500 ৳ 13,000", specialPrice: "", regularPrice: "" })
+    expect(price).toMatchObject({ current: 12500, regular: 13000, discountPercent: 4, status: "priced" })
+  })
+
+  it("reads discounted and regular prices separately when both are shown", () => {
+    const price = parsePriceText({ price: "৳ 9,000 ৳ 10,000", specialPrice: "৳ 9,000", regularPrice: "৳ 10,000" })
+    expect(price).toMatchObject({ current: 9000, regular: 10000, discountPercent: 10 })
+  })
+
+  it("reads amounts split by a no-break space", () => {
+    const price = parsePriceText({ price: "", specialPrice: "৳\u00a09,000", regularPrice: "৳\u00a010,000" })
+    expect(price).toMatchObject({ current: 9000, regular: 10000 })
+  })
+
+  it("keeps the phrase a shop prints instead of an amount", () => {
+    const price = parsePriceText({ price: "Call for Price", specialPrice: "", regularPrice: "" })
+    expect(price).toMatchObject({ current: null, status: "call-for-price" })
+  })
+})
+
+describe("canonicalProductUrl", () => {
+  it("drops tracking parameters and the fragment, and uses the shop's own host over https", () => {
+    const url = "http://startech.com.bd/amd-ryzen-5-7600?utm_source=x#specification"
+    expect(canonicalProductUrl(url, "www.startech.com.bd")).toBe("https://www.startech.com.bd/amd-ryzen-5-7600")
+  })
+
+  it("keeps the parameters that pick the product", () => {
+    const url = "https://www.skyland.com.bd/index.php?route=product/product&path=20&product_id=42&utm_medium=y"
+    expect(canonicalProductUrl(url, "www.skyland.com.bd", ["route", "product_id"])).toBe(
+      "https://www.skyland.com.bd/index.php?route=product%2Fproduct&product_id=42",
+    )
+  })
+})
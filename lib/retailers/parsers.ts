@@ -0,0 +1,32 @@
+import { parseDiscountedPrice, parsePrice, type Price } from "@/lib/price"
+import type { PriceTexts } from "./types"
+
+// Both Startech and OpenCart read the page number from a `page` query parameter
+export function setPageParam(url: string, page: number): string {
+  if (page <= 1) return url
+
+  const pagedUrl = new URL(url)
+  pagedUrl.searchParams.set("page", String(page))
+  return pagedUrl.toString()
+}
+
+// A product URL on the shop's own host over https, keeping only the query parameters that pick the product
+export function canonicalProductUrl(url: string, host: string, keepParams: string[] = []): string {
+  const parsed = new URL(url)
+  const canonical = new URL(parsed.pathname, `https://${host}`)
+  keepParams.forEach((name) => {
+    const value = parsed.searchParams.get(name)
+    if (value !== null) canonical.searchParams.set(name, value)
+  })
+  return canonical.toString()
+}
+
+// Startech shows the discounted price next to the regular one, and OpenCart themes render `.price-new`
+// and `.price-old` inside `.price`; when both are there they are read separately
+export function parsePriceText({ price, specialPrice, regularPrice }: PriceTexts): Price {
+  if (regularPrice && specialPrice) {
+    return parseDiscountedPrice(specialPrice, regularPrice)
+  }
+
+  return parsePrice(price)
+}
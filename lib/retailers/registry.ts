@@ -0,0 +1,26 @@
+// The shops we scrape. Kept apart from the scraper so pages can list the shops without bundling it
+import { createOpenCartAdapter } from "./opencart"
+import { openCartShops } from "./opencart-shops"
+import { startech } from "./startech"
+import type { RetailerAdapter } from "./types"
+
+// Every shop we scrape, in the order results are displayed
+export const retailers: RetailerAdapter[] = [startech, ...openCartShops.map(createOpenCartAdapter)]
+
+export function getRetailer(name: string): RetailerAdapter | undefined {
+  return retailers.find((retailer) => retailer.name === name)
+}
+
+// The shop a product URL belongs to, with or without "www."; undefined for any other site
+export function retailerForUrl(url: string): RetailerAdapter | undefined {
+  let hostname: string
+  try {
+    const parsed = new URL(url)
+    if (parsed.protocol !== "https:" && parsed.protocol !== "http:") return undefined
+    hostname = parsed.hostname.replace(/^www\./, "")
+  } catch {
+    return undefined
+  }
+
+  return retailers.find((retailer) => retailer.host.replace(/^www\./, "") === hostname)
+}
@@ -0,0 +1,11 @@
+import type { RetailerReport } from "./types"
+
+// When the oldest results in a response were scraped, or null when none were read. Failed shops are
+// skipped since they contributed no prices
+export function oldestCachedAt(reports: RetailerReport[]): string | null {
+  const times = reports
+    .filter((report) => report.cachedAt && (report.status === "ok" || report.status === "empty"))
+    .map((report) => report.cachedAt!)
+  if (times.length === 0) return null
+  return times.reduce((oldest, time) => (Date.parse(time) < Date.parse(oldest) ? time : oldest))
+}
@@ -0,0 +1,55 @@
+// Keeps the scraper polite: identical requests made at the same time share one download, and each
+// shop only ever sees a few of our requests at once, however many visitors are browsing
+
+// Requests to one shop allowed at the same time; SCRAPE_HOST_CONCURRENCY overrides it
+const DEFAULT_HOST_CONCURRENCY = 4
+
+// Downloads in progress by URL
+const inFlight = new Map<string, Promise<unknown>>()
+
+// Share the promise of an identical request that is still running instead of starting another
+export function coalesce<T>(key: string, task: () => Promise<T>): Promise<T> {
+  const running = inFlight.get(key)
+  if (running) return running as Promise<T>
+
+  const result = task().finally(() => inFlight.delete(key))
+  inFlight.set(key, result)
+  return result
+}
+
+interface HostQueue {
+  active: number
+  waiting: (() => void)[]
+}
+
+const hosts = new Map<string, HostQueue>()
+
+function hostConcurrency(): number {
+  const value = Number.parseInt(process.env.SCRAPE_HOST_CONCURRENCY || "", 10)
+  return value > 0 ? value : DEFAULT_HOST_CONCURRENCY
+}
+
+// Run a request once fewer than the allowed number of requests to its host are running, in the order
+// they were made
+export async function limitHost<T>(host: string, task: () => Promise<T>): Promise<T> {
+  let queue = hosts.get(host)
+  if (!queue) {
+    queue = { active: 0, waiting: [] }
+    hosts.set(host, queue)
+  }
+
+  if (queue.active >= hostConcurrency()) {
+    await new Promise<void>((resolve) => queue!.waiting.push(resolve))
+  } else {
+    queue.active++
+  }
+
+  try {
+    return await task()
+  } finally {
+    // Hand the slot straight to the next request in line, or give it back
+    const next = queue.waiting.shift()
+    if (next) next()
+    else queue.active--
+  }
+}
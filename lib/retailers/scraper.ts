@@ -0,0 +1,146 @@
+import * as cheerio from "cheerio"
+import { cached, cachePolicy, type CacheRoute } from "@/lib/cache"
+import { parseAvailability, type Availability } from "@/lib/availability"
+import type { Price } from "@/lib/price"
+import { fetchHtml, type PageResult } from "./http"
+import { coalesce } from "./requests"
+import type { ComponentType, ListingPage, Product, RetailerAdapter, RetailerReport, RetailerStatus } from "./types"
+
+// Download a listing or product page, describing why when the shop could not be read. The same page
+// requested again before the first download finishes shares it
+export function fetchPage(adapter: RetailerAdapter, url: string): Promise<PageResult> {
+  return coalesce(url, () => fetchHtml(adapter, url))
+}
+
+// Shops often print "Up Coming" or "Call for Price" in place of the price instead of a stock label
+function availabilityFromPrice(price: Price): Availability {
+  switch (price.status) {
+    case "upcoming":
+    case "tba":
+      return "upcoming"
+    case "call-for-price":
+      return "call-for-price"
+    default:
+      return "out-of-stock"
+  }
+}
+
+// Read up to `limit` listings from a page using the adapter's selectors
+export function parseListing(adapter: RetailerAdapter, html: string, limit: number): Omit<ListingPage, "report"> {
+  const { selectors } = adapter
+  const $ = cheerio.load(html)
+  const products: Product[] = []
+
+  $(selectors.item)
+    .slice(0, limit)
+    .each((_, element) => {
+      const item = $(element)
+
+      const price = adapter.parsePrice({
+        price: item.find(selectors.price).text().trim(),
+        specialPrice: item.find(selectors.specialPrice).text().trim(),
+        regularPrice: item.find(selectors.regularPrice).text().trim(),
+      })
+
+      const stockText = item.find(selectors.stock).text().trim()
+
+      products.push({
+        name: item.find(selectors.name).text().trim(),
+        price,
+        image: item.find(selectors.image).attr("src") || "",
+        availability: parseAvailability(stockText, adapter.availabilityPhrases) ?? availabilityFromPrice(price),
+        source: adapter.name,
+        url: item.find(selectors.link).attr("href") || "",
+      })
+    })
+
+  return { products, hasMore: $(selectors.nextPage).length > 0 }
+}
+
+// Fetch and parse a single listing page, never throwing
+async function scrapeListings(adapter: RetailerAdapter, url: string, limit: number): Promise<ListingPage> {
+  const startedAt = Date.now()
+  const report = (status: RetailerStatus, itemCount = 0, error?: string): RetailerReport => ({
+    status,
+    latencyMs: Date.now() - startedAt,
+    itemCount,
+    ...(error && { error }),
+  })
+
+  const page = await fetchPage(adapter, url)
+  if (!("html" in page)) {
+    return { products: [], hasMore: false, report: report(page.status, 0, page.error) }
+  }
+
+  try {
+    const { products, hasMore } = parseListing(adapter, page.html, limit)
+
+    // Items were found but none had a name, so the shop's markup no longer matches our selectors
+    if (products.length > 0 && products.every((product) => !product.name)) {
+      return { products: [], hasMore: false, report: report("parse-error", 0, "Listing markup did not match") }
+    }
+
+    return { products, hasMore, report: report(products.length > 0 ? "ok" : "empty", products.length) }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error"
+    console.error(`Error parsing ${adapter.name} listing:`, message)
+    return { products: [], hasMore: false, report: report("parse-error", 0, message) }
+  }
+}
+
+// A listing page from the scrape cache, or fetched and parsed when there is no fresh copy. Only pages
+// that were read successfully are cached, so a shop being down is retried on the next request
+export async function fetchListings(
+  adapter: RetailerAdapter,
+  url: string,
+  limit: number,
+  route: CacheRoute,
+): Promise<ListingPage> {
+  const startedAt = Date.now()
+  const { value, cachedAt } = await cached(
+    `listing:${adapter.name}:${limit}:${url}`,
+    cachePolicy(route),
+    () => scrapeListings(adapter, url, limit),
+    (page) => page.report.status === "ok" || page.report.status === "empty",
+  )
+
+  return {
+    ...value,
+    report: { ...value.report, latencyMs: Date.now() - startedAt, cachedAt: new Date(cachedAt).toISOString() },
+  }
+}
+
+// Report for a retailer whose fetch rejected outright. Parsing never throws out of `fetchListings`, so
+// a rejection means the shop couldn't be reached, or didn't answer in time
+export function failedReport(error: unknown): RetailerReport {
+  const timedOut = error instanceof Error && (error.name === "AbortError" || error.name === "TimeoutError")
+  return {
+    status: timedOut ? "timeout" : "http-error",
+    latencyMs: 0,
+    itemCount: 0,
+    error: error instanceof Error ? error.message : "Unknown error",
+  }
+}
+
+export function searchRetailer(
+  adapter: RetailerAdapter,
+  query: string,
+  limit: number,
+  page = 1,
+): Promise<ListingPage> {
+  return fetchListings(adapter, adapter.pageUrl(adapter.searchUrl(query), page), limit, "search")
+}
+
+export async function fetchRetailerCategory(
+  adapter: RetailerAdapter,
+  type: string,
+  limit: number,
+  page = 1,
+): Promise<ListingPage> {
+  const url = adapter.categoryUrls[type as ComponentType]
+  if (!url) {
+    return { products: [], hasMore: false, report: { status: "empty", latencyMs: 0, itemCount: 0 } }
+  }
+
+  return fetchListings(adapter, adapter.pageUrl(url, page), limit, "category")
+}
@@ -0,0 +1,48 @@
+import { DEFAULT_AVAILABILITY_PHRASES } from "@/lib/availability"
+import { canonicalProductUrl, parsePriceText, setPageParam } from "./parsers"
+import type { RetailerAdapter } from "./types"
+
+export const startech: RetailerAdapter = {
+  name: "Startech",
+  host: "www.startech.com.bd",
+  searchUrl: (query) => `https://www.startech.com.bd/product/search?search=${encodeURIComponent(query)}`,
+  // Startech paginates with `?page=N`
+  pageUrl: setPageParam,
+  // Product pages are plain paths, e.g. /amd-ryzen-5-7600
+  productUrl: (url) => canonicalProductUrl(url, "www.startech.com.bd"),
+  categoryUrls: {
+    cpu: "https://www.startech.com.bd/component/processor",
+    "cpu-cooler": "https://www.startech.com.bd/component/cooler",
+    motherboard: "https://www.startech.com.bd/component/motherboard",
+    memory: "https://www.startech.com.bd/component/ram",
+    storage: "https://www.startech.com.bd/component/hard-disk-drive",
+    "video-card": "https://www.startech.com.bd/component/graphics-card",
+    case: "https://www.startech.com.bd/component/casing",
+    "power-supply": "https://www.startech.com.bd/component/power-supply",
+    monitor: "https://www.startech.com.bd/monitor",
+  },
+  selectors: {
+    item: ".p-item",
+    name: ".p-item-name",
+    link: "a",
+    image: ".p-item-img img",
+    price: ".p-item-price",
+    specialPrice: ".special-price",
+    regularPrice: ".regular-price",
+    stock: ".p-item-stock",
+    nextPage: ".pagination li.active + li a",
+  },
+  detailSelectors: {
+    name: "h1.product-name",
+    images: ".product-img-holder a",
+    specTable: "#specification .data-table",
+    specHeading: ".heading-row",
+    specName: ".name",
+    specValue: ".value",
+    keyFeatures: ".short-description li",
+    description: "#description .full-description",
+    brand: ".product-info-data.product-brand",
+  },
+  parsePrice: parsePriceText,
+  availabilityPhrases: DEFAULT_AVAILABILITY_PHRASES,
+}
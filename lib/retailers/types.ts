@@ -0,0 +1,156 @@
+// Shared shapes for the retailer scraping layer
+import type { Availability, AvailabilityPhrase } from "@/lib/availability"
+import type { Price } from "@/lib/price"
+
+// Component categories the builder knows about
+export const COMPONENT_TYPES = [
+  "cpu",
+  "cpu-cooler",
+  "motherboard",
+  "memory",
+  "storage",
+  "video-card",
+  "case",
+  "power-supply",
+  "monitor",
+] as const
+
+export type ComponentType = (typeof COMPONENT_TYPES)[number]
+
+export const COMPONENT_LABELS: Record<ComponentType, string> = {
+  cpu: "CPU",
+  "cpu-cooler": "CPU Cooler",
+  motherboard: "Motherboard",
+  memory: "Memory",
+  storage: "Storage",
+  "video-card": "Video Card",
+  case: "Case",
+  "power-supply": "Power Supply",
+  monitor: "Monitor",
+}
+
+// A single listing as returned by the search and cross-site routes
+export interface Product {
+  name: string
+  price: Price
+  image: string
+  availability: Availability
+  source: string
+  url: string
+}
+
+// A listing as returned by the components route
+export interface Component extends Product {
+  specs?: Record<string, string>
+}
+
+// CSS selectors used to read a product grid on a listing or search page
+export interface ListingSelectors {
+  item: string
+  name: string
+  link: string
+  image: string
+  price: string
+  // Discounted price, shown next to the struck-through regular price
+  specialPrice: string
+  regularPrice: string
+  stock: string
+  // Link to the page after the current one; missing on the last page
+  nextPage: string
+}
+
+// CSS selectors used to read a product page. Selectors left empty are skipped
+export interface DetailSelectors {
+  name: string
+  // Gallery images; links are read from `href`, images from `data-src` or `src`
+  images: string
+  // Tables of the specification tab, each split into groups by heading rows
+  specTable: string
+  specHeading: string
+  specName: string
+  specValue: string
+  keyFeatures: string
+  description: string
+  brand: string
+}
+
+// One headed block of a product's specification table, e.g. "Memory" with its rows
+export interface SpecGroup {
+  title: string
+  specs: Record<string, string>
+}
+
+// A product page parsed into the details listing pages leave out
+export interface ProductDetail {
+  name: string
+  url: string
+  source: string
+  brand: string | null
+  warranty: string | null
+  description: string | null
+  keyFeatures: string[]
+  images: string[]
+  specGroups: SpecGroup[]
+}
+
+// Outcome of one request to a shop, so the UI can tell "no results" apart from "shop is down". "blocked" is
+// a bot check served in place of the page, and "circuit-open" a shop skipped for a while after failing repeatedly
+export type RetailerStatus =
+  | "ok"
+  | "timeout"
+  | "http-error"
+  | "parse-error"
+  | "empty"
+  | "blocked"
+  | "circuit-open"
+
+export interface RetailerReport {
+  status: RetailerStatus
+  latencyMs: number
+  itemCount: number
+  error?: string
+  // When the results were scraped; earlier than the response when they came from the scrape cache
+  cachedAt?: string
+}
+
+// Lines sent by the streaming (`stream=1`) mode of /api/products and /api/components
+export type RetailerStreamLine<T> =
+  | { type: "batch"; retailer: string; items: T[]; report: RetailerReport; hasMore?: boolean }
+  | { type: "done"; hasMore?: boolean }
+  | { type: "error"; message: string }
+
+// One page of listings from a single shop
+export interface ListingPage {
+  products: Product[]
+  hasMore: boolean
+  report: RetailerReport
+}
+
+// Raw text pulled out of a listing's price block
+export interface PriceTexts {
+  price: string
+  specialPrice: string
+  regularPrice: string
+}
+
+// Everything the scraper needs to know about one shop
+export interface RetailerAdapter {
+  // Display name, also used as the `source` of every listing
+  name: string
+  // Hostname of the shop, used to recognise its product URLs
+  host: string
+  // Extra request headers some shops need to serve the page
+  headers?: Record<string, string>
+  searchUrl: (query: string) => string
+  // Point a search or category URL at the given 1-based page
+  pageUrl: (url: string, page: number) => string
+  // The one URL of a product page however it was linked, so tracking parameters or a fragment don't
+  // make it a different page
+  productUrl: (url: string) => string
+  categoryUrls: Record<ComponentType, string>
+  selectors: ListingSelectors
+  detailSelectors: DetailSelectors
+  parsePrice: (texts: PriceTexts) => Price
+  // Stock label phrases checked in order; unmatched labels fall back to the price status
+  availabilityPhrases: AvailabilityPhrase[]
+}
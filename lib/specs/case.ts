@@ -0,0 +1,17 @@
+import { collectSpecs, parseFormFactor } from "./parsers"
+import type { Specs } from "./types"
+
+function parseTowerSize(name: string): string | null {
+  const match = name.match(/\b(full|mid|mini)[\s-]*tower\b/i)
+  return match ? `${match[1][0].toUpperCase()}${match[1].slice(1).toLowerCase()} Tower` : null
+}
+
+// "Lian Li LANCOOL 216 ARGB Mid Tower ATX Case with 2 Fans, Tempered Glass"
+export function caseSpecs(name: string): Specs {
+  return collectSpecs([
+    ["Type", parseTowerSize(name)],
+    ["Motherboard", parseFormFactor(name)],
+    ["Side Panel", /tempered glass|\bTG\b/i.test(name) ? "Tempered Glass" : null],
+    ["Included Fans", name.match(/\b(\d)\s*(?:x\s*)?(?:A?RGB\s*)?fans?\b/i)?.[1]],
+  ])
+}
@@ -0,0 +1,13 @@
+import { collectSpecs, matchWithUnit } from "./parsers"
+import type { Specs } from "./types"
+
+// "DeepCool LE720 360mm ARGB AIO Liquid CPU Cooler", "Thermalright Peerless Assassin 120 SE Air Cooler"
+export function cpuCoolerSpecs(name: string): Specs {
+  const liquid = /liquid|\baio\b|water|radiator/i.test(name)
+
+  return collectSpecs([
+    ["Type", liquid ? "Liquid" : /\bair\b|tower|heatsink/i.test(name) ? "Air" : null],
+    ["Radiator", liquid ? matchWithUnit(name, /\b(120|140|240|280|360|420)\s*(?:mm)?\b/i, "mm") : null],
+    ["Fan Size", liquid ? null : matchWithUnit(name, /\b(\d{2,3})\s*mm\b/i, "mm")],
+  ])
+}
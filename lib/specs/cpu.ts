@@ -0,0 +1,17 @@
+import { collectSpecs, matchWithUnit } from "./parsers"
+import type { Specs } from "./types"
+
+// "AMD Ryzen 5 7600 Processor 3.8GHz Up to 5.1GHz 6-Core 12-Thread 32MB Cache 65W"
+export function cpuSpecs(name: string): Specs {
+  const clocks = Array.from(name.matchAll(/(\d+(?:\.\d+)?)\s*GHz/gi), (match) => Number(match[1]))
+  const boost = clocks.length > 1 && Math.max(...clocks) > clocks[0] ? Math.max(...clocks) : null
+
+  return collectSpecs([
+    ["Clock Speed", clocks.length > 0 ? `${clocks[0]}GHz` : null],
+    ["Boost Clock", boost ? `${boost}GHz` : null],
+    ["Cores", name.match(/(\d+)[\s-]*Cores?\b/i)?.[1]],
+    ["Threads", name.match(/(\d+)[\s-]*Threads?\b/i)?.[1]],
+    ["Cache", matchWithUnit(name, /(\d+(?:\.\d+)?)\s*MB\s*(?:L[23]\s*|Smart\s*)?Cache/i, "MB")],
+    ["TDP", matchWithUnit(name, /\b(\d{2,3})\s*W\b/i, "W")],
+  ])
+}
@@ -0,0 +1,39 @@
+// Specs read from listing names, one extractor per category, so every shop's listings carry
+// the same details whatever their product pages look like
+import { guessComponentType } from "@/lib/retailers/matching"
+import type { ComponentType } from "@/lib/retailers/types"
+import { caseSpecs } from "./case"
+import { cpuSpecs } from "./cpu"
+import { cpuCoolerSpecs } from "./cpu-cooler"
+import { memorySpecs } from "./memory"
+import { monitorSpecs } from "./monitor"
+import { motherboardSpecs } from "./motherboard"
+import { powerSupplySpecs } from "./power-supply"
+import { storageSpecs } from "./storage"
+import type { SpecExtractor, Specs } from "./types"
+import { videoCardSpecs } from "./video-card"
+
+export type { SpecExtractor, Specs } from "./types"
+
+export const specExtractors: Record<ComponentType, SpecExtractor> = {
+  cpu: cpuSpecs,
+  "cpu-cooler": cpuCoolerSpecs,
+  motherboard: motherboardSpecs,
+  memory: memorySpecs,
+  storage: storageSpecs,
+  "video-card": videoCardSpecs,
+  case: caseSpecs,
+  "power-supply": powerSupplySpecs,
+  monitor: monitorSpecs,
+}
+
+export function extractSpecs(name: string, type: string): Specs {
+  const extractor = specExtractors[type as ComponentType]
+  return extractor ? extractor(name) : {}
+}
+
+// Specs saved with a part, or read from its name for parts saved before specs were extracted
+export function partSpecs(part: { name: string; type?: string; specs?: Specs }): Specs {
+  if (part.specs && Object.keys(part.specs).length > 0) return part.specs
+  return extractSpecs(part.name, part.type ?? guessComponentType(part.name) ?? "")
+}
@@ -0,0 +1,29 @@
+import { collectSpecs, parseMemoryType } from "./parsers"
+import type { Specs } from "./types"
+
+// "2x16GB", "2 x 16 GB", "16GB x2" -> [2, 16]
+function parseKit(name: string): [number, number] | null {
+  const countFirst = name.match(/\b(\d)\s*x\s*(\d{1,3})\s*GB\b/i)
+  if (countFirst) return [Number(countFirst[1]), Number(countFirst[2])]
+
+  const sizeFirst = name.match(/\b(\d{1,3})\s*GB\s*x\s*(\d)\b/i)
+  return sizeFirst ? [Number(sizeFirst[2]), Number(sizeFirst[1])] : null
+}
+
+// "Corsair Vengeance 32GB (2x16GB) DDR5 6000MHz CL36 Desktop RAM"
+export function memorySpecs(name: string): Specs {
+  const kit = parseKit(name)
+  // The name's first size is the kit total, unless it only lists the kit ("2x16GB")
+  const capacity = kit ? kit[0] * kit[1] : Number(name.match(/\b(\d{1,3})\s*GB\b/i)?.[1]) || null
+  const latency = name.match(/\bCL?[\s-]?(\d{2})\b/)
+  const speed = name.match(/\b(\d{4})\s*(?:MHz|MT\/s)/i) ?? name.match(/DDR\d[\s-](\d{4})\b/i)
+
+  return collectSpecs([
+    ["Capacity", capacity ? `${capacity}GB` : null],
+    ["Kit", kit ? `${kit[0]} x ${kit[1]}GB` : null],
+    ["Type", parseMemoryType(name)],
+    ["Speed", speed ? `${speed[1]}MHz` : null],
+    ["CAS Latency", latency ? `CL${latency[1]}` : null],
+    ["Form Factor", /so-?dimm|laptop|notebook/i.test(name) ? "SO-DIMM" : null],
+  ])
+}
@@ -0,0 +1,33 @@
+import { collectSpecs, matchWithUnit } from "./parsers"
+import type { Specs } from "./types"
+
+// Resolution shorthands in the order they'd be confused: "UHD" before "HD"
+const RESOLUTION_NAMES: [RegExp, string][] = [
+  [/\b(?:4K|UHD|2160p)\b/i, "3840x2160"],
+  [/\b(?:WQHD|QHD|2K|1440p)\b/i, "2560x1440"],
+  [/\b(?:FHD|Full HD|1080p)\b/i, "1920x1080"],
+]
+
+// Most specific first, so "QD-OLED" isn't read as "OLED"
+const PANELS = ["QD-OLED", "OLED", "Nano IPS", "Fast IPS", "IPS", "VA", "TN"]
+
+function parseResolution(name: string): string | null {
+  const explicit = name.match(/\b(\d{3,4})\s*[x×*]\s*(\d{3,4})\b/)
+  if (explicit) return `${explicit[1]}x${explicit[2]}`
+  return RESOLUTION_NAMES.find(([pattern]) => pattern.test(name))?.[1] ?? null
+}
+
+function parsePanel(name: string): string | null {
+  return PANELS.find((panel) => new RegExp(`\\b${panel}\\b`, "i").test(name)) ?? null
+}
+
+// "MSI G2412 23.8\" 170Hz FHD IPS Gaming Monitor"
+export function monitorSpecs(name: string): Specs {
+  return collectSpecs([
+    ["Size", matchWithUnit(name, /\b(\d{2}(?:\.\d)?)\s*(?:"|”|''|-?\s*inch(?:es)?\b|in\b)/i, '"')],
+    ["Resolution", parseResolution(name)],
+    ["Refresh Rate", matchWithUnit(name, /\b(\d{2,3})\s*Hz\b/i, "Hz")],
+    ["Panel", parsePanel(name)],
+    ["Response Time", matchWithUnit(name, /\b(\d(?:\.\d)?)\s*ms\b/i, "ms")],
+  ])
+}
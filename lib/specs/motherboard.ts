@@ -0,0 +1,13 @@
+import { collectSpecs, parseBoardFormFactor, parseChipset, parseMemoryType, parseSocket } from "./parsers"
+import type { Specs } from "./types"
+
+// "MSI MAG B650M MORTAR WIFI AM5 Micro ATX DDR5 Motherboard"
+export function motherboardSpecs(name: string): Specs {
+  return collectSpecs([
+    ["Chipset", parseChipset(name)],
+    ["Socket", parseSocket(name)],
+    ["Form Factor", parseBoardFormFactor(name)],
+    ["Memory Type", parseMemoryType(name)],
+    ["Wi-Fi", /wi-?fi/i.test(name) ? "Yes" : null],
+  ])
+}
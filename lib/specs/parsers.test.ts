@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest"
+import { extractAttributes } from "@/lib/compatibility"
+import { extractSpecs } from "."
+import { parseBoardFormFactor, parseChipset, parseFormFactor, parseMemoryType, parseSocket } from "./parsers"
+
+describe("spec parsers", () => {
+  it("reads sockets however they are spelled", () => {
+    expect(parseSocket("Intel LGA 1700 Socket")).toBe("LGA1700")
+    expect(parseSocket("LGA-1200")).toBe("LGA1200")
+    expect(parseSocket("am5")).toBe("AM5")
+    expect(parseSocket("Socket TR4")).toBeNull()
+  })
+
+  it("only takes known chipsets, preferring the E variant", () => {
+    expect(parseChipset("ASUS ROG STRIX X670E-E GAMING WIFI")).toBe("X670E")
+    expect(parseChipset("Gigabyte B650M DS3H")).toBe("B650")
+    expect(parseChipset("Model B123 Board")).toBeNull()
+  })
+
+  it("reads system memory but not graphics memory", () => {
+    expect(parseMemoryType("Corsair Vengeance 32GB DDR5 6000MHz")).toBe("DDR5")
+    expect(parseMemoryType("RTX 4060 8GB GDDR6")).toBeNull()
+  })
+
+  it("spells every form factor the same way", () => {
+    expect(parseFormFactor("Micro ATX Case")).toBe("Micro-ATX")
+    expect(parseFormFactor("mATX")).toBe("Micro-ATX")
+    expect(parseFormFactor("Mini ITX")).toBe("Mini-ITX")
+    expect(parseFormFactor("E-ATX")).toBe("E-ATX")
+    expect(parseFormFactor("ATX Mid Tower")).toBe("ATX")
+  })
+
+  it("falls back on the chipset's size suffix for boards", () => {
+    expect(parseBoardFormFactor("MSI B760I EDGE WIFI")).toBe("Mini-ITX")
+    expect(parseBoardFormFactor("Gigabyte B650M DS3H")).toBe("Micro-ATX")
+    expect(parseBoardFormFactor("MSI PRO B650-P")).toBeNull()
+  })
+})
+
+describe("spec table and compatibility checks", () => {
+  it.each([
+    ["MSI MAG B650M MORTAR WIFI AM5 DDR5 Motherboard"],
+    ["ASUS TUF GAMING Z790-PLUS WIFI Micro ATX DDR4"],
+    ["Gigabyte B760I AORUS PRO DDR4"],
+  ])("read the same board details from %j", (name) => {
+    const specs = extractSpecs(name, "motherboard")
+    const attributes = extractAttributes("motherboard", { name })
+
+    expect(specs.Chipset).toBe(attributes.chipset)
+    expect(specs["Form Factor"]).toBe(attributes.formFactor)
+    expect(specs["Memory Type"]).toBe(attributes.memoryType)
+  })
+
+  it("read the same board size for a case", () => {
+    const name = "Lian Li A3 Micro ATX Case"
+    expect(extractSpecs(name, "case").Motherboard).toBe(extractAttributes("case", { name }).formFactor)
+  })
+})
@@ -0,0 +1,113 @@
+// Patterns shared by more than one category's spec extractor
+import type { FormFactor, MemoryType, Socket } from "@/lib/compatibility/types"
+import type { Specs } from "./types"
+
+// Keep only the specs that were found
+export function collectSpecs(entries: [string, string | null | undefined][]): Specs {
+  return Object.fromEntries(entries.filter((entry): entry is [string, string] => Boolean(entry[1])))
+}
+
+// "1 TB" -> "1TB", "512GB" -> "512GB"; the first capacity in the name
+export function parseCapacity(name: string): string | null {
+  const match = name.match(/(\d+(?:\.\d+)?)\s*(TB|GB)\b/i)
+  return match ? `${match[1]}${match[2].toUpperCase()}` : null
+}
+
+// Chipsets and the socket their boards use
+export const CHIPSET_SOCKETS: Record<string, Socket> = {
+  A320: "AM4",
+  B350: "AM4",
+  X370: "AM4",
+  B450: "AM4",
+  X470: "AM4",
+  A520: "AM4",
+  B550: "AM4",
+  X570: "AM4",
+  A620: "AM5",
+  B650: "AM5",
+  B650E: "AM5",
+  X670: "AM5",
+  X670E: "AM5",
+  B840: "AM5",
+  B850: "AM5",
+  X870: "AM5",
+  X870E: "AM5",
+  H310: "LGA1151",
+  B360: "LGA1151",
+  B365: "LGA1151",
+  H370: "LGA1151",
+  Z370: "LGA1151",
+  Z390: "LGA1151",
+  H410: "LGA1200",
+  B460: "LGA1200",
+  H470: "LGA1200",
+  Z490: "LGA1200",
+  H510: "LGA1200",
+  B560: "LGA1200",
+  H570: "LGA1200",
+  Z590: "LGA1200",
+  H610: "LGA1700",
+  B660: "LGA1700",
+  H670: "LGA1700",
+  Z690: "LGA1700",
+  B760: "LGA1700",
+  H770: "LGA1700",
+  Z790: "LGA1700",
+  H810: "LGA1851",
+  B860: "LGA1851",
+  Z890: "LGA1851",
+}
+
+// "AM5", "LGA 1700", "LGA-1200" -> "AM5", "LGA1700", "LGA1200"
+export function parseSocket(text: string): Socket | null {
+  const match = text.match(/\b(AM[45]|LGA\s*-?\s*(1151|1200|1700|1851))\b/i)
+  if (!match) return null
+  return (match[2] ? `LGA${match[2]}` : match[1].toUpperCase()) as Socket
+}
+
+// A known chipset in a board's name, with the size suffix some boards add to it: "B650M" -> ["B650", "M"]
+function matchChipset(name: string): [string, string | undefined] | null {
+  for (const match of name.matchAll(/(?:^|[^A-Z0-9])([ABHXZ]\d{3})(E?)([MI])?(?![A-Z0-9])/gi)) {
+    const chipset = `${match[1]}${match[2]}`.toUpperCase()
+    const suffix = match[3]?.toUpperCase()
+    if (CHIPSET_SOCKETS[chipset]) return [chipset, suffix]
+    if (CHIPSET_SOCKETS[match[1].toUpperCase()]) return [match[1].toUpperCase(), suffix]
+  }
+  return null
+}
+
+export function parseChipset(name: string): string | null {
+  return matchChipset(name)?.[0] ?? null
+}
+
+// DDR4/DDR5 system memory, not the GDDR on graphics cards
+export function parseMemoryType(name: string): MemoryType | null {
+  const match = name.match(/(?<!G)\bDDR\s*([345])/i)
+  return match ? (`DDR${match[1]}` as MemoryType) : null
+}
+
+// Motherboard size, as boards and the cases that take them spell it
+export function parseFormFactor(name: string): FormFactor | null {
+  if (/\bE[\s-]?ATX\b/i.test(name)) return "E-ATX"
+  if (/\b(?:micro[\s-]?ATX|m[\s-]?ATX|uATX)\b/i.test(name)) return "Micro-ATX"
+  if (/\bmini[\s-]?ITX\b|\bITX\b/i.test(name)) return "Mini-ITX"
+  if (/\bATX\b/i.test(name)) return "ATX"
+  return null
+}
+
+// Boards often only hint at their size with a suffix on the chipset: "B650M" is Micro-ATX, "B760I" Mini-ITX
+export function parseBoardFormFactor(name: string): FormFactor | null {
+  const explicit = parseFormFactor(name)
+  if (explicit) return explicit
+
+  const suffix = matchChipset(name)?.[1]
+  if (suffix === "M") return "Micro-ATX"
+  if (suffix === "I") return "Mini-ITX"
+  return null
+}
+
+// First capture of the pattern with its unit appended: ("8 GB", /(\d+)\s*GB/, "GB") -> "8GB"
+export function matchWithUnit(name: string, pattern: RegExp, unit: string): string | null {
+  const match = name.match(pattern)
+  return match ? `${match[1]}${unit}` : null
+}
@@ -0,0 +1,30 @@
+import { collectSpecs, matchWithUnit } from "./parsers"
+import type { Specs } from "./types"
+
+const EFFICIENCY_TIERS = ["Titanium", "Platinum", "Gold", "Silver", "Bronze", "White"]
+
+// "80 Plus Gold", "80+ GOLD", "80PLUS Bronze" -> "80+ Gold"; a bare "80 Plus" is the entry-level rating
+function parseEfficiency(name: string): string | null {
+  const match = name.match(/\b80\s*(?:\+|plus)\s*(titanium|platinum|gold|silver|bronze|white)?/i)
+  if (!match) return null
+
+  const tier = EFFICIENCY_TIERS.find((label) => label.toLowerCase() === match[1]?.toLowerCase())
+  return tier ? `80+ ${tier}` : "80+"
+}
+
+function parseModularity(name: string): string | null {
+  if (/semi[\s-]*modular/i.test(name)) return "Semi"
+  if (/non[\s-]*modular/i.test(name)) return "No"
+  if (/modular/i.test(name)) return "Full"
+  return null
+}
+
+// "Corsair RM850e 850 Watt 80 Plus Gold Fully Modular ATX 3.0 Power Supply"
+export function powerSupplySpecs(name: string): Specs {
+  return collectSpecs([
+    ["Wattage", matchWithUnit(name, /\b(\d{3,4})\s*(?:W|watts?)\b/i, "W")],
+    ["Efficiency", parseEfficiency(name)],
+    ["Modular", parseModularity(name)],
+    ["Form Factor", name.match(/\b(SFX(?:-L)?)\b/i)?.[1].toUpperCase()],
+  ])
+}
@@ -0,0 +1,37 @@
+import { collectSpecs, matchWithUnit, parseCapacity } from "./parsers"
+import type { Specs } from "./types"
+
+function parseDriveType(name: string): string | null {
+  if (/\bnvme\b|\bm\.2\b|\bssd\b|solid state/i.test(name)) return "SSD"
+  if (/\bhdd\b|hard (?:disk|drive)|\d{4,5}\s*rpm/i.test(name)) return "HDD"
+  return null
+}
+
+function parseInterface(name: string): string | null {
+  const pcie = name.match(/\bPCIe?\s*(?:Gen\s*)?(\d)(?:\.0)?\b/i)
+  if (pcie) return `PCIe ${pcie[1]}.0`
+  if (/\bnvme\b/i.test(name)) return "NVMe"
+  if (/\bsata\b/i.test(name)) return "SATA"
+  return null
+}
+
+function parseFormFactor(name: string): string | null {
+  if (/\bm\.2\b/i.test(name)) {
+    const length = name.match(/\b22(30|42|60|80|110)\b/)
+    return length ? `M.2 22${length[1]}` : "M.2"
+  }
+  if (/\b2\.5\s*(?:"|”|-?inch|in\b)/i.test(name)) return '2.5"'
+  if (/\b3\.5\s*(?:"|”|-?inch|in\b)/i.test(name)) return '3.5"'
+  return null
+}
+
+// "Samsung 990 PRO 1TB M.2 2280 PCIe Gen 4.0 NVMe SSD", "Seagate BarraCuda 2TB 3.5 Inch 7200 RPM SATA HDD"
+export function storageSpecs(name: string): Specs {
+  return collectSpecs([
+    ["Capacity", parseCapacity(name)],
+    ["Type", parseDriveType(name)],
+    ["Interface", parseInterface(name)],
+    ["Form Factor", parseFormFactor(name)],
+    ["RPM", matchWithUnit(name, /\b(\d{4,5})\s*RPM\b/i, " RPM")],
+  ])
+}
@@ -0,0 +1,5 @@
+// Specs shown on component cards, keyed by label, e.g. { VRAM: "8GB" }
+export type Specs = Record<string, string>
+
+// Reads the specs of one kind of part out of a listing name
+export type SpecExtractor = (name: string) => Specs
@@ -0,0 +1,27 @@
+import { collectSpecs, matchWithUnit } from "./parsers"
+import type { Specs } from "./types"
+
+// "RTX 4060 Ti", "RX 7800 XT", "Arc A750", however the listing spaces and capitalises them
+function parseChipset(name: string): string | null {
+  const nvidia = name.match(/\b(RTX|GTX|GT)\s*(\d{3,4})\s*(Ti\s*Super|Ti|Super)?\b/i)
+  if (nvidia) {
+    const suffix = nvidia[3]?.replace(/\s+/g, " ").replace(/ti/i, "Ti").replace(/super/i, "SUPER")
+    return [nvidia[1].toUpperCase(), nvidia[2], suffix].filter(Boolean).join(" ")
+  }
+
+  const amd = name.match(/\bRX\s*(\d{3,4})\s*(XTX|XT|GRE)?\b/i)
+  if (amd) return ["RX", amd[1], amd[2]?.toUpperCase()].filter(Boolean).join(" ")
+
+  const intel = name.match(/\bArc\s*([AB]\d{3})\b/i)
+  return intel ? `Arc ${intel[1].toUpperCase()}` : null
+}
+
+// "GIGABYTE GeForce RTX 4060 Ti WINDFORCE OC 8GB GDDR6 Graphics Card"
+export function videoCardSpecs(name: string): Specs {
+  return collectSpecs([
+    ["Chipset", parseChipset(name)],
+    // Some listings shorten it to "16G"
+    ["VRAM", matchWithUnit(name, /\b(\d{1,2})\s*GB?\b/i, "GB")],
+    ["Memory Type", name.match(/\b(GDDR\d\s?X?)\b/i)?.[1].replace(/\s/g, "").toUpperCase()],
+  ])
+}